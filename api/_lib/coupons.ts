@@ -0,0 +1,65 @@
+import type { Coupon } from "../../shared/schema";
+import {
+  checkCoupon,
+  normalizeCouponCode,
+  toCouponTerms,
+  type CouponRejection,
+  type CouponTerms,
+} from "../../shared/coupon";
+import { supabase } from "./supabase";
+
+// Supabaseのsnake_case → フロントのcamelCase変換
+export function mapCoupon(row: any): Coupon {
+  return {
+    id: row.id,
+    code: row.code,
+    kind: row.kind,
+    value: row.value,
+    validFrom: row.valid_from,
+    validUntil: row.valid_until,
+    usageLimit: row.usage_limit,
+    maxDiscountAmount: row.max_discount_amount,
+    createdAt: row.created_at,
+  };
+}
+
+// クーポンコードを解決して利用できるか確認する。コードが無ければ coupon も undefined
+export async function resolveCoupon(
+  code: string | undefined
+): Promise<{ coupon?: Coupon } | { rejection: CouponRejection }> {
+  if (!code) return {};
+
+  const { data, error } = await supabase
+    .from("coupons")
+    .select("*")
+    .eq("code", normalizeCouponCode(code))
+    .maybeSingle();
+  if (error) throw error;
+  const coupon = data ? mapCoupon(data) : undefined;
+
+  let redemptionCount = 0;
+  if (coupon) {
+    const { count, error: countError } = await supabase
+      .from("coupon_redemptions")
+      .select("id", { count: "exact", head: true })
+      .eq("coupon_id", coupon.id);
+    if (countError) throw countError;
+    redemptionCount = count ?? 0;
+  }
+
+  const rejection = checkCoupon(coupon, redemptionCount);
+  if (rejection) return { rejection };
+  return { coupon };
+}
+
+// 注文時に使ったクーポン（編集時の再計算用）
+export async function getOrderCoupon(orderId: number): Promise<CouponTerms | null> {
+  const { data, error } = await supabase
+    .from("coupon_redemptions")
+    .select("coupons(*)")
+    .eq("order_id", orderId)
+    .maybeSingle();
+  if (error) throw error;
+  const row: any = data?.coupons;
+  return row ? toCouponTerms(mapCoupon(row)) : null;
+}
@@ -0,0 +1,30 @@
+import { CUP_DEPOSIT, isCupDepositItem, summarizeCups, type CupSummary } from "../../shared/deposit";
+import { refundableQuantities } from "../../shared/refund";
+import { supabase } from "./supabase";
+import { MENU_MAP, ORDER_WITH_ITEMS_SELECT, mapOrderWithItems } from "./menu";
+
+// リユースカップの貸出・返却の状況（イベント開始からの累計）
+export async function summarizeCupsOut(): Promise<CupSummary> {
+  const [orders, cupReturns] = await Promise.all([
+    supabase.from("orders").select(ORDER_WITH_ITEMS_SELECT),
+    supabase.from("cup_returns").select("cups, amount"),
+  ]);
+  if (orders.error) throw orders.error;
+  if (cupReturns.error) throw cupReturns.error;
+
+  // 取消の注文ではカップを貸し出していない
+  const mapped = (orders.data ?? []).map(mapOrderWithItems).filter((order) => order.status !== "cancelled");
+  return summarizeCups(
+    {
+      depositLines: mapped.flatMap((order) => {
+        const remaining = refundableQuantities(order);
+        return order.items
+          .filter((item: any) => isCupDepositItem(item.menuItem))
+          .map((item: any) => ({ quantity: item.quantity, refundedQuantity: item.quantity - (remaining.get(item.id) ?? 0) }));
+      }),
+      orders: mapped,
+      cupReturns: cupReturns.data ?? [],
+    },
+    MENU_MAP.get(CUP_DEPOSIT.menuItemId)?.price ?? 0
+  );
+}
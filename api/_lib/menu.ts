@@ -1,24 +1,128 @@
-import type { MenuItem } from "../../shared/schema";
+import {
+  lineAdjustmentSchema,
+  optionSelectionSchema,
+  orderNoteSchema,
+  type LineAdjustment,
+  type MenuItem,
+  type OptionSelection,
+  type SelectedOption,
+} from "../../shared/schema";
 import { MENU_ITEMS } from "../../shared/menuData";
+import {
+  priceOrder,
+  quotePrice,
+  type OrderPricing,
+  type OrderPricingLine,
+  type PriceQuote,
+  type PricingOptions,
+} from "../../shared/pricing";
+import type { CouponTerms } from "../../shared/coupon";
+import { CUP_DEPOSIT, withCupDeposit } from "../../shared/deposit";
+import type { OrderTaxAmounts } from "../../shared/tax";
+import { matchesStoredOptions, resolveOptions } from "../../shared/menuOption";
 
 export type { MenuItem };
 export { MENU_ITEMS };
 export const MENU_MAP = new Map<number, MenuItem>(MENU_ITEMS.map((m) => [m.id, m]));
 
-export function calcTotalAmount(
-  items: Array<{ menuItemId: number; quantity: number }>
-): number {
-  const totalDrinks = items.reduce((sum, i) => sum + i.quantity, 0);
-  const softDrinks = items.reduce(
-    (sum, i) => sum + (MENU_MAP.get(i.menuItemId)?.category === "ソフトドリンク" ? i.quantity : 0),
-    0
-  );
-  const fullSets = Math.floor(totalDrinks / 3);
-  const remainder = totalDrinks % 3;
-  let price = fullSets * 150000;
-  if (remainder === 1) price += 70000;
-  else if (remainder === 2) price += 120000;
-  return Math.max(0, price - softDrinks * 20000);
+export type ItemInput = {
+  menuItemId: number;
+  quantity: number;
+  options?: OptionSelection[];
+  adjustment?: LineAdjustment | null;
+  note?: string | null;
+};
+
+// 注文明細の入力チェック。問題があればエラーメッセージを返す。
+// 編集時は existingItems に保存済みの明細を渡す（同じオプションのまま送り直した明細は必須の項目を確かめない）
+export function validateItems(
+  items: unknown,
+  existingItems: Array<{ menuItemId: number; options?: OptionSelection[] | null }> = []
+): string | null {
+  if (!Array.isArray(items)) return "Invalid order data";
+  for (const item of items) {
+    if (!Number.isInteger(item?.quantity) || item.quantity <= 0) return "Invalid order data";
+    if (!MENU_MAP.has(item.menuItemId)) return `Unknown menu item: ${item.menuItemId}`;
+    const options = optionSelectionSchema.array().optional().safeParse(item.options);
+    const allowMissingRequired = options.success && matchesStoredOptions({ ...item, options: options.data }, existingItems);
+    if (
+      !options.success ||
+      "rejection" in resolveOptions(MENU_MAP.get(item.menuItemId)!, options.data ?? [], { allowMissingRequired })
+    ) {
+      return `Invalid options for menu item: ${item.menuItemId}`;
+    }
+    if (item.adjustment != null && !lineAdjustmentSchema.safeParse(item.adjustment).success) {
+      return "Invalid adjustment";
+    }
+    if (!orderNoteSchema.safeParse(item.note).success) return "Invalid note";
+  }
+  return null;
+}
+
+// メニューの名前・追加料金を付けたオプション。validateItems 済みの item を渡すこと
+// （必須の項目は validateItems で確かめているので、保存済みの明細の送り直しもそのまま解決する）
+function selectedOptions(item: ItemInput): SelectedOption[] {
+  const menuItem = MENU_MAP.get(item.menuItemId);
+  const result = menuItem ? resolveOptions(menuItem, item.options ?? [], { allowMissingRequired: true }) : undefined;
+  return result && "options" in result ? result.options : [];
+}
+
+function toPricingLines(items: ItemInput[]): OrderPricingLine[] {
+  return items.flatMap((i) => {
+    const menuItem = MENU_MAP.get(i.menuItemId);
+    return menuItem ? [{ menuItem, quantity: i.quantity, options: selectedOptions(i), adjustment: i.adjustment }] : [];
+  });
+}
+
+// リユースカップのデポジットの明細をドリンクの杯数に合わせる。validateItems 済みの items を渡すこと
+export function withCupDepositItems(items: ItemInput[]): ItemInput[] {
+  const depositItem = MENU_MAP.get(CUP_DEPOSIT.menuItemId);
+  if (!depositItem) return items;
+  return withCupDeposit(
+    items.map((item) => ({ ...item, menuItem: MENU_MAP.get(item.menuItemId)! })),
+    (quantity) => ({ menuItemId: depositItem.id, quantity, menuItem: depositItem })
+  ).map(({ menuItem, ...item }) => item);
+}
+
+export function quoteOrder(items: ItemInput[], coupon?: CouponTerms | null, ticketDrinks?: number): PriceQuote {
+  return quotePrice(toPricingLines(items), { coupon, ticketDrinks });
+}
+
+// 合計・明細ごとの金額・税率ごとの消費税。validateItems 済みの items を渡すこと
+export function priceItems(items: ItemInput[], options: PricingOptions = {}): OrderPricing {
+  return priceOrder(toPricingLines(items), options);
+}
+
+// 税率ごとの金額・料金設定 → Supabaseのカラム
+export function toAmountColumns(
+  amounts: OrderTaxAmounts & { pricingRuleId: string; adjustmentAmount: number; ticketAmount: number; depositAmount: number }
+) {
+  return {
+    pricing_rule_id: amounts.pricingRuleId,
+    adjustment_amount: amounts.adjustmentAmount,
+    ticket_amount: amounts.ticketAmount,
+    deposit_amount: amounts.depositAmount,
+    taxable_amount_10: amounts.taxableAmount10,
+    tax_amount_10: amounts.taxAmount10,
+    taxable_amount_8: amounts.taxableAmount8,
+    tax_amount_8: amounts.taxAmount8,
+  };
+}
+
+// 注文明細 → Supabaseのカラム（オプション・コンプ・価格変更の内容・明細のメモを含む）
+export function toItemColumns(orderId: number, item: ItemInput, price: number, originalPrice: number | null) {
+  return {
+    order_id: orderId,
+    menu_item_id: item.menuItemId,
+    quantity: item.quantity,
+    options: selectedOptions(item),
+    price,
+    adjustment_kind: item.adjustment?.kind ?? null,
+    adjustment_reason: item.adjustment?.reason ?? null,
+    adjustment_approved_by: item.adjustment?.approvedBy ?? null,
+    original_price: item.adjustment ? originalPrice : null,
+    note: orderNoteSchema.parse(item.note),
+  };
 }
 
 // Supabaseのsnake_case → フロントのcamelCase変換
@@ -26,13 +130,63 @@ export function mapOrder(row: any) {
   return {
     id: row.id,
     orderNumber: row.order_number,
+    businessDate: row.business_date,
     status: row.status,
     totalAmount: row.total_amount,
+    taxableAmount10: row.taxable_amount_10,
+    taxAmount10: row.tax_amount_10,
+    taxableAmount8: row.taxable_amount_8,
+    taxAmount8: row.tax_amount_8,
+    pricingRuleId: row.pricing_rule_id,
+    adjustmentAmount: row.adjustment_amount,
+    ticketAmount: row.ticket_amount,
+    depositAmount: row.deposit_amount,
+    cancelReason: row.cancel_reason,
+    cancelledAt: row.cancelled_at,
+    note: row.note ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+export function mapPayment(row: any) {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    method: row.method,
+    amount: row.amount,
+    tenderedAmount: row.tendered_amount,
+    changeAmount: row.change_amount,
+    providerChargeId: row.provider_charge_id,
+    createdAt: row.created_at,
+  };
+}
+
+// 注文を明細・支払い・返金と一緒に取得するときの select
+export const ORDER_WITH_ITEMS_SELECT = "*, order_items(*), payments(*), refunds(*, refund_lines(*))";
+
+export function mapRefund(row: any) {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    amount: row.amount,
+    reason: row.reason,
+    method: row.method ?? "cash",
+    taxableAmount10: row.taxable_amount_10,
+    taxAmount10: row.tax_amount_10,
+    taxableAmount8: row.taxable_amount_8,
+    taxAmount8: row.tax_amount_8,
+    createdAt: row.created_at,
+    lines: (row.refund_lines ?? []).map((line: any) => ({
+      id: line.id,
+      refundId: line.refund_id,
+      orderItemId: line.order_item_id,
+      quantity: line.quantity,
+      amount: line.amount,
+    })),
+  };
+}
+
 export function mapOrderWithItems(row: any) {
   return {
     ...mapOrder(row),
@@ -42,7 +196,16 @@ export function mapOrderWithItems(row: any) {
       menuItemId: item.menu_item_id,
       quantity: item.quantity,
       price: item.price,
+      adjustmentKind: item.adjustment_kind,
+      adjustmentReason: item.adjustment_reason,
+      adjustmentApprovedBy: item.adjustment_approved_by,
+      originalPrice: item.original_price,
+      completedQuantity: item.completed_quantity ?? 0,
+      note: item.note ?? null,
+      options: item.options ?? [],
       menuItem: MENU_MAP.get(item.menu_item_id)!,
     })),
+    payments: (row.payments ?? []).map(mapPayment),
+    refunds: (row.refunds ?? []).map(mapRefund),
   };
 }
@@ -0,0 +1,38 @@
+import type { VercelRequest } from "@vercel/node";
+import type { OrderEvent, OrderEventType } from "../../shared/schema";
+import { actorFromHeaders } from "../../shared/orderEvent";
+import { supabase } from "./supabase";
+
+// Supabaseのsnake_case → フロントのcamelCase変換
+export function mapOrderEvent(row: any): OrderEvent {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    type: row.type,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    deviceId: row.device_id,
+    staffName: row.staff_name,
+    createdAt: row.created_at,
+  };
+}
+
+// 注文の変更履歴を残す。変更した端末・担当者はリクエストヘッダーから取る
+export async function recordOrderEvent(
+  req: VercelRequest,
+  orderId: number,
+  type: OrderEventType,
+  oldValue: Record<string, unknown> | null,
+  newValue: Record<string, unknown> | null
+) {
+  const { deviceId, staffName } = actorFromHeaders(req.headers);
+  const { error } = await supabase.from("order_events").insert({
+    order_id: orderId,
+    type,
+    old_value: oldValue,
+    new_value: newValue,
+    device_id: deviceId,
+    staff_name: staffName,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,22 @@
+import { isKitchenLine } from "../../shared/orderStatus";
+import { supabase } from "./supabase";
+import { MENU_MAP } from "./menu";
+
+// 完了にした注文は明細のチェックもすべて済んだものとして記録する（厨房カードの表示と合わせる）
+export async function completeKitchenLines(orderId: number): Promise<void> {
+  const { data, error } = await supabase
+    .from("order_items")
+    .select("id, menu_item_id, quantity, completed_quantity")
+    .eq("order_id", orderId);
+  if (error) throw error;
+
+  for (const row of data ?? []) {
+    const menuItem = MENU_MAP.get(row.menu_item_id);
+    if (!menuItem || !isKitchenLine({ menuItem }) || row.completed_quantity >= row.quantity) continue;
+    const { error: updateError } = await supabase
+      .from("order_items")
+      .update({ completed_quantity: row.quantity })
+      .eq("id", row.id);
+    if (updateError) throw updateError;
+  }
+}
@@ -0,0 +1,18 @@
+import {
+  ORDER_NUMBERING,
+  businessDateOf,
+  formatOrderNumber,
+  orderSequenceKey,
+} from "../../shared/orderNumber";
+import { supabase } from "./supabase";
+
+// 次の注文番号。DB の next_order_number()（migrations/next_order_number.sql）で連番を1つ進める
+export async function nextOrderNumber(): Promise<{ orderNumber: string; businessDate: string }> {
+  const businessDate = businessDateOf();
+  const { data, error } = await supabase.rpc("next_order_number", {
+    p_sequence_key: orderSequenceKey(businessDate),
+    p_start: ORDER_NUMBERING.start,
+  });
+  if (error) throw error;
+  return { orderNumber: formatOrderNumber(data as number), businessDate };
+}
@@ -0,0 +1,62 @@
+import type { RegisterClose } from "../../shared/schema";
+import { summarizeRegister, type RegisterSummary } from "../../shared/registerClose";
+import { supabase } from "./supabase";
+import { mapPayment } from "./menu";
+
+// Supabaseのsnake_case → フロントのcamelCase変換
+export function mapRegisterClose(row: any): RegisterClose {
+  return {
+    id: row.id,
+    periodStart: row.period_start,
+    closedAt: row.closed_at,
+    openingFloat: row.opening_float,
+    denominationCounts: row.denomination_counts,
+    countedCash: row.counted_cash,
+    cashSales: row.cash_sales,
+    expectedCash: row.expected_cash,
+    difference: row.difference,
+    paymentTotals: row.payment_totals,
+    salesTotal: row.sales_total,
+    refundTotal: row.refund_total,
+    cashRefundTotal: row.cash_refund_total ?? 0,
+    depositTotal: row.deposit_total,
+    depositRefundTotal: row.deposit_refund_total,
+    orderCount: row.order_count,
+    note: row.note,
+  };
+}
+
+// 前回のレジ締め以降の売上・支払い・返金を集計する
+export async function summarizeCurrentPeriod(): Promise<RegisterSummary> {
+  const { data: latest, error: latestError } = await supabase
+    .from("register_closes")
+    .select("closed_at")
+    .order("closed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestError) throw latestError;
+  const periodStart = latest ? new Date(latest.closed_at) : null;
+  const since = (periodStart ?? new Date(0)).toISOString();
+
+  // 取消の注文は売上に含めず、支払いはお客様に返したものとして扱う
+  const [orders, payments, refunds, cupReturns] = await Promise.all([
+    supabase.from("orders").select("total_amount, deposit_amount").gt("created_at", since).neq("status", "cancelled"),
+    supabase.from("payments").select("*, orders!inner(status)").gt("created_at", since).neq("orders.status", "cancelled"),
+    supabase.from("refunds").select("amount, method").gt("created_at", since),
+    supabase.from("cup_returns").select("amount").gt("created_at", since),
+  ]);
+  if (orders.error) throw orders.error;
+  if (payments.error) throw payments.error;
+  if (refunds.error) throw refunds.error;
+  if (cupReturns.error) throw cupReturns.error;
+
+  return summarizeRegister(
+    {
+      orders: (orders.data ?? []).map((row) => ({ totalAmount: row.total_amount, depositAmount: row.deposit_amount })),
+      payments: (payments.data ?? []).map(mapPayment),
+      refunds: refunds.data ?? [],
+      cupReturns: cupReturns.data ?? [],
+    },
+    periodStart
+  );
+}
@@ -0,0 +1,74 @@
+import type { Ticket, TicketRedemption } from "../../shared/schema";
+import { checkTicket, normalizeTicketCode, type TicketRejection } from "../../shared/ticket";
+import { supabase } from "./supabase";
+
+// Supabaseのsnake_case → フロントのcamelCase変換
+export function mapTicket(row: any): Ticket {
+  return {
+    id: row.id,
+    code: row.code,
+    drinks: row.drinks,
+    remainingDrinks: row.remaining_drinks,
+    price: row.price,
+    validUntil: row.valid_until,
+    createdAt: row.created_at,
+  };
+}
+
+function mapTicketRedemption(row: any): TicketRedemption {
+  return {
+    id: row.id,
+    ticketId: row.ticket_id,
+    orderId: row.order_id,
+    drinks: row.drinks,
+    amount: row.amount,
+    createdAt: row.created_at,
+  };
+}
+
+export async function getTicketByCode(code: string): Promise<Ticket | undefined> {
+  const { data, error } = await supabase
+    .from("tickets")
+    .select("*")
+    .eq("code", normalizeTicketCode(code))
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapTicket(data) : undefined;
+}
+
+// 前売りチケットのコードを解決して引き換えられるか確認する。コードが無ければ ticket も undefined
+export async function resolveTicket(
+  code: string | undefined
+): Promise<{ ticket?: Ticket } | { rejection: TicketRejection }> {
+  if (!code) return {};
+  const ticket = await getTicketByCode(code);
+  const rejection = checkTicket(ticket);
+  if (rejection) return { rejection };
+  return { ticket };
+}
+
+// 注文で引き換えたチケット（編集時の再計算用）
+export async function getOrderTicket(
+  orderId: number
+): Promise<{ ticket: Ticket; redemption: TicketRedemption } | null> {
+  const { data, error } = await supabase
+    .from("ticket_redemptions")
+    .select("*, tickets(*)")
+    .eq("order_id", orderId)
+    .maybeSingle();
+  if (error) throw error;
+  const row: any = data?.tickets;
+  return data && row ? { ticket: mapTicket(row), redemption: mapTicketRedemption(data) } : null;
+}
+
+// チケットの残り杯数を変える（引き換えはマイナス、取り消しはプラス）。
+// DB の change_ticket_drinks()（migrations/redeem_ticket.sql）で、残り杯数が足りない場合は変えずに false を返す
+export async function updateRemainingDrinks(ticketId: number, change: number): Promise<boolean> {
+  if (change === 0) return true;
+  const { data, error } = await supabase.rpc("change_ticket_drinks", {
+    p_ticket_id: ticketId,
+    p_change: change,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
@@ -0,0 +1,55 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { insertCouponSchema } from "../../shared/schema";
+import { isAdminRequest } from "../../shared/admin";
+import { supabase } from "../_lib/supabase";
+import { mapCoupon } from "../_lib/coupons";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("coupons")
+        .select("*")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return res.json((data ?? []).map(mapCoupon));
+    }
+
+    // クーポンの登録は管理者のみ
+    if (req.method === "POST") {
+      if (!isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required" });
+      }
+
+      const coupon = insertCouponSchema.parse(req.body);
+
+      const { data, error } = await supabase
+        .from("coupons")
+        .insert({
+          code: coupon.code,
+          kind: coupon.kind,
+          value: coupon.value,
+          valid_from: coupon.validFrom ?? null,
+          valid_until: coupon.validUntil ?? null,
+          usage_limit: coupon.usageLimit ?? null,
+          max_discount_amount: coupon.maxDiscountAmount ?? null,
+        })
+        .select()
+        .single();
+      // 23505: unique_violation
+      if (error?.code === "23505") return res.status(409).json({ message: "Coupon code already exists" });
+      if (error) throw error;
+
+      return res.status(201).json(mapCoupon(data));
+    }
+
+    return res.status(405).json({ message: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid coupon data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
@@ -0,0 +1,36 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { cupReturnRequestSchema } from "../shared/schema";
+import { supabase } from "./_lib/supabase";
+import { summarizeCupsOut } from "./_lib/cups";
+
+// カップ返却。返却された数のデポジットを現金で返す
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return res.status(405).json({ message: "Method not allowed" });
+
+  try {
+    const { cups } = cupReturnRequestSchema.parse(req.body);
+    const summary = await summarizeCupsOut();
+    if (!summary.enabled) {
+      return res.status(422).json({ message: "Cup return not possible", reason: "disabled" });
+    }
+    if (cups > summary.cupsOutstanding) {
+      return res.status(422).json({ message: "Cup return not possible", reason: "exceeds-outstanding" });
+    }
+
+    const { data, error } = await supabase
+      .from("cup_returns")
+      .insert({ cups, amount: -cups * summary.depositPrice })
+      .select()
+      .single();
+    if (error) throw error;
+
+    return res.status(201).json({ id: data.id, cups: data.cups, amount: data.amount, createdAt: data.created_at });
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid cup return data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
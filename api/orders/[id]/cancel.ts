@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { cancelRequestSchema } from "../../../shared/schema";
+import { isCancellable } from "../../../shared/orderStatus";
+import { supabase } from "../../_lib/supabase";
+import { ORDER_WITH_ITEMS_SELECT, mapOrderWithItems } from "../../_lib/menu";
+import { recordOrderEvent } from "../../_lib/orderEvents";
+import { getOrderTicket, updateRemainingDrinks } from "../../_lib/tickets";
+
+// 注文の取消。注文は理由と日時を付けて残し、クーポン・前売りチケットの利用は取り消す
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return res.status(405).json({ message: "Method not allowed" });
+
+  const id = Number(req.query.id);
+  if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+
+  try {
+    const { reason } = cancelRequestSchema.parse(req.body);
+
+    const { data: existing, error: existingError } = await supabase
+      .from("orders")
+      .select("status, refunds(id), payments(id)")
+      .eq("id", id)
+      .single();
+    if (existingError || !existing) return res.status(404).json({ message: "Order not found" });
+    if (!isCancellable(existing.status)) {
+      return res.status(409).json({ message: "Invalid status transition", from: existing.status, to: "cancelled" });
+    }
+    // 返金済みの注文を取り消すと返金と二重に差し引かれる
+    if (existing.refunds.length > 0) return res.status(409).json({ message: "Order has refunds" });
+    // 支払いのある注文を取り消すと受け取った額がレジ締めから消え、決済端末の取引も残る。先に返金で対応する
+    if (existing.payments.length > 0) return res.status(409).json({ message: "Order has payments" });
+
+    // 読み取り後に他の端末が変えていた場合は取り消さない
+    const { data: cancelled, error: cancelError } = await supabase
+      .from("orders")
+      .update({ status: "cancelled", cancel_reason: reason, cancelled_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", existing.status)
+      .select("id")
+      .maybeSingle();
+    if (cancelError) throw cancelError;
+    if (!cancelled) {
+      return res.status(409).json({ message: "Invalid status transition", from: existing.status, to: "cancelled" });
+    }
+
+    // 引き換えたチケットの杯数を戻す
+    const orderTicket = await getOrderTicket(id);
+    if (orderTicket) {
+      await supabase.from("ticket_redemptions").delete().eq("order_id", id);
+      await updateRemainingDrinks(orderTicket.ticket.id, orderTicket.redemption.drinks);
+    }
+    await supabase.from("coupon_redemptions").delete().eq("order_id", id);
+
+    await recordOrderEvent(req, id, "cancelled", { status: existing.status }, { status: "cancelled", cancelReason: reason });
+
+    const { data, error } = await supabase
+      .from("orders")
+      .select(ORDER_WITH_ITEMS_SELECT)
+      .eq("id", id)
+      .single();
+    if (error) throw error;
+    return res.json(mapOrderWithItems(data));
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid cancel data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
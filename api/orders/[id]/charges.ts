@@ -0,0 +1,7 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+// 決済端末の接続（PaymentProvider）は Express サーバーにのみある。
+// 501 を返すとレジ画面は端末を使わずに支払いを記録する
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  return res.status(501).json({ message: "Payment terminal not configured" });
+}
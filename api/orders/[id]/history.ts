@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { supabase } from "../../_lib/supabase";
+import { mapOrderEvent } from "../../_lib/orderEvents";
+
+// 注文の変更履歴（古い順）。削除した注文の履歴も返す
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") return res.status(405).json({ message: "Method not allowed" });
+
+  const id = Number(req.query.id);
+  if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+
+  try {
+    const { data, error } = await supabase
+      .from("order_events")
+      .select("*")
+      .eq("order_id", id)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true });
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      const { count, error: orderError } = await supabase
+        .from("orders")
+        .select("id", { count: "exact", head: true })
+        .eq("id", id);
+      if (orderError) throw orderError;
+      if (!count) return res.status(404).json({ message: "Order not found" });
+    }
+
+    return res.json((data ?? []).map(mapOrderEvent));
+  } catch (err: any) {
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
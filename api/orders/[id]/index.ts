@@ -1,6 +1,34 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabase } from "../../_lib/supabase";
-import { calcTotalAmount, mapOrder, mapOrderWithItems } from "../../_lib/menu";
+import {
+  ORDER_WITH_ITEMS_SELECT,
+  mapOrder,
+  mapOrderWithItems,
+  priceItems,
+  toAmountColumns,
+  toItemColumns,
+  validateItems,
+  withCupDepositItems,
+  type ItemInput,
+} from "../../_lib/menu";
+import { getOrderCoupon } from "../../_lib/coupons";
+import { recordOrderEvent } from "../../_lib/orderEvents";
+import { getOrderTicket, updateRemainingDrinks } from "../../_lib/tickets";
+import { getPricingRulesById } from "../../../shared/pricing";
+import { OrderStatus, orderNoteSchema } from "../../../shared/schema";
+import {
+  acceptsItemProgress,
+  canTransition,
+  carryOverCompletedQuantities,
+  isEditableStatus,
+  isKitchenLine,
+  progressTransitions,
+} from "../../../shared/orderStatus";
+import { orderSnapshot } from "../../../shared/orderEvent";
+import { isAdminRequest } from "../../../shared/admin";
+import { completeKitchenLines } from "../../_lib/orderItems";
+import { hasNewAdjustments } from "../../../shared/adjustment";
+import { changesPricedLines } from "../../../shared/payment";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const id = Number(req.query.id);
@@ -13,7 +41,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (withItems) {
         const { data, error } = await supabase
           .from("orders")
-          .select("*, order_items(*)")
+          .select(ORDER_WITH_ITEMS_SELECT)
           .eq("id", id)
           .single();
         if (error || !data) return res.status(404).json({ message: "Order not found" });
@@ -30,26 +58,109 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     if (req.method === "PATCH") {
-      const { orderNumber, status, items } = req.body;
-      const totalAmount = calcTotalAmount(
-        (items ?? []).map((i: any) => ({ menuItemId: i.menuItemId, quantity: i.quantity }))
-      );
+      // 注文番号はサーバーが振ったものから変えない
+      const { status } = req.body;
+      const submittedItems: ItemInput[] = req.body.items ?? [];
+
+      if (!OrderStatus.safeParse(status).success) return res.status(400).json({ message: "Invalid status" });
+      // 省略した場合は今のメモを残す
+      const note = orderNoteSchema.optional().safeParse(req.body.note);
+      if (!note.success) return res.status(400).json({ message: "Invalid note" });
+      if (status === "cancelled") {
+        return res.status(400).json({ message: "Cancel orders with POST /api/orders/:id/cancel" });
+      }
+
+      const { data: existing, error: existingError } = await supabase
+        .from("orders")
+        .select(ORDER_WITH_ITEMS_SELECT)
+        .eq("id", id)
+        .single();
+      if (existingError || !existing) return res.status(404).json({ message: "Order not found" });
+      // 保存済みの明細と同じオプションのまま送り直した明細は、必須の項目が無くても受け付ける
+      const invalid = validateItems(submittedItems, mapOrderWithItems(existing).items);
+      if (invalid) return res.status(400).json({ message: invalid });
+      // デポジットはドリンクの杯数から決める
+      const items = withCupDepositItems(submittedItems);
+      if (existing.status === "cancelled") return res.status(409).json({ message: "Order is cancelled" });
+      // 提供後の注文は明細を作り直すと支払い・返金と合わなくなるため編集できない（返金で対応する）
+      if (!isEditableStatus(existing.status)) {
+        return res.status(409).json({ message: "Order is not editable", status: existing.status });
+      }
+      // 編集でもステータスは決められた順にしか変えられない
+      if (status !== existing.status && !canTransition(existing.status, status)) {
+        return res.status(409).json({ message: "Invalid status transition", from: existing.status, to: status });
+      }
+      // 返金済みの注文は明細を作り直すと返金との対応が崩れるため編集できない
+      if (existing.refunds.length > 0) return res.status(409).json({ message: "Order has refunds" });
+      // 注文時に承認済みのコンプ・価格変更はそのまま送り直せる。新たに付けたもの・数量を変えたものは管理者の承認が要る
+      if (
+        hasNewAdjustments(submittedItems, mapOrderWithItems(existing).items) &&
+        !isAdminRequest(req.headers, process.env.ADMIN_TOKEN)
+      ) {
+        return res.status(403).json({ message: "Admin token required for adjustments" });
+      }
+
+      // 支払いのある注文は合計が変わると受け取った額とずれるため、メモ・ステータス以外は編集できない
+      if (existing.payments.length > 0 && changesPricedLines(items, mapOrderWithItems(existing).items)) {
+        return res.status(409).json({ message: "Order has payments" });
+      }
+
+      // 注文時に有効だった料金設定とクーポンで再計算する。
+      // 前売りチケットは注文時に引き換えた杯数を戻した上で引き換え直す
+      const coupon = await getOrderCoupon(id);
+      const orderTicket = await getOrderTicket(id);
+      const { totalAmount, linePrices, originalPrices, couponDiscount, ticketDrinks, ...amounts } = priceItems(items, {
+        rules: getPricingRulesById(existing.pricing_rule_id),
+        coupon,
+        ticketDrinks: orderTicket ? orderTicket.ticket.remainingDrinks + orderTicket.redemption.drinks : undefined,
+      });
+
+      // チケットの残り杯数は条件付きで変える。読んだ後に他の注文で引き換えられて足りなくなった場合は編集を取りやめる
+      if (orderTicket) {
+        const changed = await updateRemainingDrinks(orderTicket.ticket.id, orderTicket.redemption.drinks - ticketDrinks);
+        if (!changed) return res.status(422).json({ message: "Ticket not applicable", reason: "used-up" });
+      }
 
       const { error: updateError } = await supabase
         .from("orders")
-        .update({ order_number: orderNumber, status, total_amount: totalAmount })
+        .update({
+          status,
+          total_amount: totalAmount,
+          ...toAmountColumns(amounts),
+          ...(note.data !== undefined && { note: note.data }),
+        })
         .eq("id", id);
       if (updateError) throw updateError;
 
-      await supabase.from("order_items").delete().eq("order_id", id);
+      if (coupon) {
+        const { error: couponError } = await supabase
+          .from("coupon_redemptions")
+          .update({ discount_amount: couponDiscount })
+          .eq("order_id", id);
+        if (couponError) throw couponError;
+      }
 
-      if (Array.isArray(items) && items.length > 0) {
+      if (orderTicket) {
+        const { error: ticketError } = await supabase
+          .from("ticket_redemptions")
+          .update({ drinks: ticketDrinks, amount: amounts.ticketAmount })
+          .eq("order_id", id);
+        if (ticketError) throw ticketError;
+      }
+
+      // 厨房で作り終えた数は同じ明細に引き継ぐ
+      const completedQuantities = carryOverCompletedQuantities(
+        items.map((item) => ({ ...item, note: orderNoteSchema.parse(item.note) })),
+        mapOrderWithItems(existing).items
+      );
+      const { error: deleteItemsError } = await supabase.from("order_items").delete().eq("order_id", id);
+      if (deleteItemsError) throw deleteItemsError;
+
+      if (items.length > 0) {
         const { error: itemsError } = await supabase.from("order_items").insert(
-          items.map((item: any) => ({
-            order_id: id,
-            menu_item_id: item.menuItemId,
-            quantity: item.quantity,
-            price: 0,
+          items.map((item, index) => ({
+            ...toItemColumns(id, item, linePrices[index], originalPrices[index]),
+            completed_quantity: completedQuantities[index],
           }))
         );
         if (itemsError) throw itemsError;
@@ -57,16 +168,62 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const { data, error } = await supabase
         .from("orders")
-        .select("*, order_items(*)")
+        .select(ORDER_WITH_ITEMS_SELECT)
         .eq("id", id)
         .single();
       if (error || !data) return res.status(404).json({ message: "Order not found" });
-      return res.json(mapOrderWithItems(data));
+      const updated = mapOrderWithItems(data);
+      await recordOrderEvent(req, id, "items-edited", orderSnapshot(mapOrderWithItems(existing)), orderSnapshot(updated));
+
+      // 編集で完了にした場合はすべての明細を済みにする。それ以外は引き継いだチェックと新しい明細に合わせて
+      // ステータスを進める（明細を足せば完了から調理中に戻る）
+      if (status === "ready" && existing.status !== "ready") {
+        await completeKitchenLines(id);
+        updated.items = updated.items.map((item: any) =>
+          isKitchenLine(item) ? { ...item, completedQuantity: item.quantity } : item
+        );
+      } else if (acceptsItemProgress(updated.status)) {
+        let current = updated.status;
+        for (const next of progressTransitions(current, updated.items.filter(isKitchenLine))) {
+          const { error: statusError } = await supabase.from("orders").update({ status: next }).eq("id", id);
+          if (statusError) throw statusError;
+          await recordOrderEvent(req, id, "status-changed", { status: current }, { status: next });
+          current = next;
+        }
+        updated.status = current;
+      }
+      return res.json(updated);
     }
 
+    // 注文の完全削除（管理者のみ）。取消済みの注文だけを対象にし、変更履歴は残す
     if (req.method === "DELETE") {
+      if (!isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required" });
+      }
+
+      const { data: existing, error: existingError } = await supabase
+        .from("orders")
+        .select(ORDER_WITH_ITEMS_SELECT)
+        .eq("id", id)
+        .single();
+      if (existingError || !existing) return res.status(404).json({ message: "Order not found" });
+      if (existing.status !== "cancelled") return res.status(409).json({ message: "Order is not cancelled" });
+      // 返金の記録がある注文は売上の監査のため削除しない
+      if (existing.refunds.length > 0) return res.status(409).json({ message: "Order has refunds" });
+
+      // 引き換えたチケットの杯数を戻す
+      const orderTicket = await getOrderTicket(id);
+      if (orderTicket) {
+        await supabase.from("ticket_redemptions").delete().eq("order_id", id);
+        await updateRemainingDrinks(orderTicket.ticket.id, orderTicket.redemption.drinks);
+      }
+
+      await supabase.from("coupon_redemptions").delete().eq("order_id", id);
+      await supabase.from("payments").delete().eq("order_id", id);
       const { error } = await supabase.from("orders").delete().eq("id", id);
       if (error) throw error;
+      // 削除した注文の履歴は残し、後から内容を確認できるようにする
+      await recordOrderEvent(req, id, "deleted", orderSnapshot(mapOrderWithItems(existing)), null);
       return res.status(204).end();
     }
 
@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { itemCompletionRequestSchema } from "../../../../shared/schema";
+import { acceptsItemProgress, isKitchenLine, progressTransitions } from "../../../../shared/orderStatus";
+import { supabase } from "../../../_lib/supabase";
+import { ORDER_WITH_ITEMS_SELECT, mapOrderWithItems } from "../../../_lib/menu";
+import { recordOrderEvent } from "../../../_lib/orderEvents";
+
+// 厨房カードで明細ごと（1杯ごと）に作り終えた数を記録する。
+// すべての明細が済めば注文は自動で完了になる
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "PATCH") return res.status(405).json({ message: "Method not allowed" });
+
+  const id = Number(req.query.id);
+  const itemId = Number(req.query.itemId);
+  if (isNaN(id) || isNaN(itemId)) return res.status(400).json({ message: "Invalid ID" });
+
+  try {
+    const { completedQuantity } = itemCompletionRequestSchema.parse(req.body);
+
+    const { data: row, error: orderError } = await supabase
+      .from("orders")
+      .select(ORDER_WITH_ITEMS_SELECT)
+      .eq("id", id)
+      .single();
+    if (orderError || !row) return res.status(404).json({ message: "Order not found" });
+    const order = mapOrderWithItems(row);
+    const item = order.items.find((orderItem: any) => orderItem.id === itemId);
+    if (!item) return res.status(404).json({ message: "Order item not found" });
+    if (!isKitchenLine(item)) return res.status(400).json({ message: "Item is not prepared in the kitchen" });
+    if (completedQuantity > item.quantity) {
+      return res.status(400).json({ message: "Completed quantity exceeds quantity" });
+    }
+    if (!acceptsItemProgress(order.status)) {
+      return res.status(409).json({ message: "Order is not in progress", status: order.status });
+    }
+
+    const { error: itemError } = await supabase
+      .from("order_items")
+      .update({ completed_quantity: completedQuantity })
+      .eq("id", itemId);
+    if (itemError) throw itemError;
+
+    const lines = order.items
+      .filter(isKitchenLine)
+      .map((line: any) => (line.id === itemId ? { ...line, completedQuantity } : line));
+    let status = order.status;
+    for (const next of progressTransitions(status, lines)) {
+      const { error } = await supabase.from("orders").update({ status: next }).eq("id", id);
+      if (error) throw error;
+      await recordOrderEvent(req, id, "status-changed", { status }, { status: next });
+      status = next;
+    }
+    // 他の厨房画面に進み具合を伝えるため、ステータスが変わらなくても注文を更新する
+    await supabase.from("orders").update({ updated_at: new Date().toISOString() }).eq("id", id);
+
+    const { data, error } = await supabase
+      .from("orders")
+      .select(ORDER_WITH_ITEMS_SELECT)
+      .eq("id", id)
+      .single();
+    if (error) throw error;
+    return res.json(mapOrderWithItems(data));
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid item status", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
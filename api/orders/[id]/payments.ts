@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { paymentRequestSchema } from "../../../shared/schema";
+import { calculatePayment } from "../../../shared/payment";
+import { supabase } from "../../_lib/supabase";
+import { mapPayment } from "../../_lib/menu";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const id = Number(req.query.id);
+  if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("order_id", id)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return res.json((data ?? []).map(mapPayment));
+    }
+
+    if (req.method === "POST") {
+      const paymentRequest = paymentRequestSchema.parse(req.body);
+
+      const { data: order, error: orderError } = await supabase
+        .from("orders")
+        .select("status, total_amount, payments(*)")
+        .eq("id", id)
+        .single();
+      if (orderError || !order) return res.status(404).json({ message: "Order not found" });
+      if (order.status === "cancelled") return res.status(409).json({ message: "Order is cancelled" });
+
+      // 支払額はクライアントの送信値ではなく注文の残額から決める
+      const payment = calculatePayment(order.total_amount, order.payments.map(mapPayment), paymentRequest);
+      if ("rejection" in payment) {
+        return res.status(422).json({ message: "Payment not possible", reason: payment.rejection });
+      }
+
+      const { data, error } = await supabase
+        .from("payments")
+        .insert({
+          order_id: id,
+          method: payment.method,
+          amount: payment.amount,
+          tendered_amount: payment.tenderedAmount,
+          change_amount: payment.changeAmount,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      return res.status(201).json(mapPayment(data));
+    }
+
+    return res.status(405).json({ message: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid payment data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
@@ -0,0 +1,6 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+// 店内のサーマルプリンターには Express サーバーからのみ接続できる
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  return res.status(503).json({ message: "Printer not configured" });
+}
@@ -0,0 +1,81 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { refundRequestSchema } from "../../../shared/schema";
+import { acceptsRefund, calculateRefund } from "../../../shared/refund";
+import { supabase } from "../../_lib/supabase";
+import { ORDER_WITH_ITEMS_SELECT, mapOrderWithItems, mapRefund } from "../../_lib/menu";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const id = Number(req.query.id);
+  if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("refunds")
+        .select("*, refund_lines(*)")
+        .eq("order_id", id)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return res.json((data ?? []).map(mapRefund));
+    }
+
+    if (req.method === "POST") {
+      const { reason, method, lines } = refundRequestSchema.parse(req.body);
+
+      const { data: row, error: orderError } = await supabase
+        .from("orders")
+        .select(ORDER_WITH_ITEMS_SELECT)
+        .eq("id", id)
+        .single();
+      if (orderError || !row) return res.status(404).json({ message: "Order not found" });
+      // 支払いのない提供前の注文は返金ではなく編集・取消で対応する
+      if (!acceptsRefund(row.status, row.payments)) return res.status(409).json({ message: "Order is not completed" });
+
+      // 明細を指定しない場合は未返金の明細をすべて返金する
+      const refund = calculateRefund(mapOrderWithItems(row), lines);
+      if ("rejection" in refund) {
+        return res.status(422).json({ message: "Refund not possible", reason: refund.rejection });
+      }
+
+      const { data: created, error: refundError } = await supabase
+        .from("refunds")
+        .insert({
+          order_id: id,
+          amount: refund.amount,
+          reason,
+          method,
+          taxable_amount_10: refund.taxableAmount10,
+          tax_amount_10: refund.taxAmount10,
+          taxable_amount_8: refund.taxableAmount8,
+          tax_amount_8: refund.taxAmount8,
+        })
+        .select()
+        .single();
+      if (refundError) throw refundError;
+
+      const { data: createdLines, error: linesError } = await supabase
+        .from("refund_lines")
+        .insert(
+          refund.lines.map((line) => ({
+            refund_id: created.id,
+            order_item_id: line.orderItemId,
+            quantity: line.quantity,
+            amount: line.amount,
+          }))
+        )
+        .select();
+      if (linesError) throw linesError;
+
+      return res.status(201).json(mapRefund({ ...created, refund_lines: createdLines }));
+    }
+
+    return res.status(405).json({ message: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid refund data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
@@ -1,6 +1,10 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { OrderStatus } from "../../../shared/schema";
+import { canTransition } from "../../../shared/orderStatus";
 import { supabase } from "../../_lib/supabase";
 import { mapOrder } from "../../_lib/menu";
+import { recordOrderEvent } from "../../_lib/orderEvents";
+import { completeKitchenLines } from "../../_lib/orderItems";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "PATCH") return res.status(405).json({ message: "Method not allowed" });
@@ -8,19 +12,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const id = Number(req.query.id);
   if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
 
-  const { status } = req.body;
-  if (!["in-progress", "ready"].includes(status)) {
+  const parsed = OrderStatus.safeParse(req.body?.status);
+  if (!parsed.success) {
     return res.status(400).json({ message: "Invalid status" });
   }
+  const status = parsed.data;
+  if (status === "cancelled") {
+    return res.status(400).json({ message: "Cancel orders with POST /api/orders/:id/cancel" });
+  }
 
   try {
+    const { data: existing, error: existingError } = await supabase
+      .from("orders")
+      .select("status")
+      .eq("id", id)
+      .single();
+    if (existingError || !existing) return res.status(404).json({ message: "Order not found" });
+    if (!canTransition(existing.status, status)) {
+      return res.status(409).json({ message: "Invalid status transition", from: existing.status, to: status });
+    }
+
+    // 読み取り後に他の端末が変えていた場合は更新しない
     const { data, error } = await supabase
       .from("orders")
       .update({ status })
       .eq("id", id)
+      .eq("status", existing.status)
       .select()
-      .single();
-    if (error || !data) return res.status(404).json({ message: "Order not found" });
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return res.status(409).json({ message: "Invalid status transition", from: existing.status, to: status });
+    await recordOrderEvent(req, id, "status-changed", { status: existing.status }, { status });
+    if (status === "ready") await completeKitchenLines(id);
     return res.json(mapOrder(data));
   } catch (err: any) {
     console.error(err);
@@ -1,6 +1,25 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { supabase } from "../_lib/supabase";
-import { mapOrder, mapOrderWithItems } from "../_lib/menu";
+import {
+  ORDER_WITH_ITEMS_SELECT,
+  mapOrder,
+  mapOrderWithItems,
+  priceItems,
+  toAmountColumns,
+  toItemColumns,
+  validateItems,
+  withCupDepositItems,
+  type ItemInput,
+} from "../_lib/menu";
+import { recordOrderEvent } from "../_lib/orderEvents";
+import { nextOrderNumber } from "../_lib/orderNumbers";
+import { orderSnapshot } from "../../shared/orderEvent";
+import { resolveCoupon } from "../_lib/coupons";
+import { resolveTicket } from "../_lib/tickets";
+import { toCouponTerms } from "../../shared/coupon";
+import { orderNoteSchema } from "../../shared/schema";
+import { hasNewAdjustments } from "../../shared/adjustment";
+import { isAdminRequest } from "../../shared/admin";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
@@ -10,7 +29,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (withItems) {
         const { data, error } = await supabase
           .from("orders")
-          .select("*, order_items(*)")
+          .select(ORDER_WITH_ITEMS_SELECT)
           .order("created_at", { ascending: false });
         if (error) throw error;
         return res.json((data ?? []).map(mapOrderWithItems));
@@ -25,35 +44,111 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     if (req.method === "POST") {
-      const { orderNumber, totalAmount, items } = req.body;
+      const { couponCode, ticketCode, totalAmount: submittedTotalAmount } = req.body;
+      const submittedItems: ItemInput[] = req.body.items ?? [];
 
+      const invalid = validateItems(submittedItems);
+      if (invalid) return res.status(400).json({ message: invalid });
+      const note = orderNoteSchema.safeParse(req.body.note);
+      if (!note.success) return res.status(400).json({ message: "Invalid note" });
+      // コンプ・価格変更は承認者の名前だけでは受け付けず、管理者トークンを確かめる
+      if (hasNewAdjustments(submittedItems) && !isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required for adjustments" });
+      }
+      // デポジットはドリンクの杯数から決める
+      const items = withCupDepositItems(submittedItems);
+
+      const couponResult = await resolveCoupon(couponCode);
+      if ("rejection" in couponResult) {
+        return res.status(422).json({ message: "Coupon not applicable", reason: couponResult.rejection });
+      }
+      const { coupon } = couponResult;
+      const ticketResult = await resolveTicket(ticketCode);
+      if ("rejection" in ticketResult) {
+        return res.status(422).json({ message: "Ticket not applicable", reason: ticketResult.rejection });
+      }
+      const { ticket } = ticketResult;
+
+      // 合計金額はサーバー側で再計算する。クライアントの送信値は照合にのみ使う
+      const { totalAmount, linePrices, originalPrices, couponDiscount, ticketDrinks, ...amounts } = priceItems(items, {
+        coupon: coupon && toCouponTerms(coupon),
+        ticketDrinks: ticket?.remainingDrinks,
+      });
+      if (submittedTotalAmount !== undefined && submittedTotalAmount !== totalAmount) {
+        return res.status(409).json({
+          message: "Total amount mismatch",
+          submittedTotalAmount,
+          expectedTotalAmount: totalAmount,
+        });
+      }
+
+      const { orderNumber, businessDate } = await nextOrderNumber();
       const { data: order, error: orderError } = await supabase
         .from("orders")
-        .insert({ order_number: orderNumber, total_amount: totalAmount, status: "in-progress" })
+        .insert({
+          order_number: orderNumber,
+          business_date: businessDate,
+          total_amount: totalAmount,
+          ...toAmountColumns(amounts),
+          note: note.data,
+          status: "new",
+        })
         .select()
         .single();
       if (orderError) throw orderError;
 
-      if (Array.isArray(items) && items.length > 0) {
+      // クーポンの利用回数は DB の redeem_coupon()（migrations/redeem_coupon.sql）で記録と同時に確かめる。
+      // 同時に使われて上限を超えた場合は注文を取りやめる
+      if (coupon) {
+        const { data: redeemed, error: redemptionError } = await supabase.rpc("redeem_coupon", {
+          p_coupon_id: coupon.id,
+          p_order_id: order.id,
+          p_discount_amount: couponDiscount,
+        });
+        if (redemptionError) throw redemptionError;
+        if (!redeemed) {
+          const { error: deleteError } = await supabase.from("orders").delete().eq("id", order.id);
+          if (deleteError) throw deleteError;
+          return res.status(422).json({ message: "Coupon not applicable", reason: "usage-limit" });
+        }
+      }
+
+      // 前売りチケットから引き換えた杯数は DB の redeem_ticket()（migrations/redeem_ticket.sql）で残り杯数を確かめて差し引く。
+      // 同時に引き換えられて足りなくなった場合は注文を取りやめる
+      if (ticket && ticketDrinks > 0) {
+        const { data: redeemed, error: ticketError } = await supabase.rpc("redeem_ticket", {
+          p_ticket_id: ticket.id,
+          p_order_id: order.id,
+          p_drinks: ticketDrinks,
+          p_amount: amounts.ticketAmount,
+        });
+        if (ticketError) throw ticketError;
+        if (!redeemed) {
+          const { error: couponDeleteError } = await supabase.from("coupon_redemptions").delete().eq("order_id", order.id);
+          if (couponDeleteError) throw couponDeleteError;
+          const { error: deleteError } = await supabase.from("orders").delete().eq("id", order.id);
+          if (deleteError) throw deleteError;
+          return res.status(422).json({ message: "Ticket not applicable", reason: "used-up" });
+        }
+      }
+
+      if (items.length > 0) {
         const { error: itemsError } = await supabase.from("order_items").insert(
-          items.map((item: any) => ({
-            order_id: order.id,
-            menu_item_id: item.menuItemId,
-            quantity: item.quantity,
-            price: item.price ?? 0,
-          }))
+          items.map((item, index) => toItemColumns(order.id, item, linePrices[index], originalPrices[index]))
         );
         if (itemsError) throw itemsError;
       }
 
       const { data: full, error: fullError } = await supabase
         .from("orders")
-        .select("*, order_items(*)")
+        .select(ORDER_WITH_ITEMS_SELECT)
         .eq("id", order.id)
         .single();
       if (fullError) throw fullError;
 
-      return res.status(201).json(mapOrderWithItems(full));
+      const created = mapOrderWithItems(full);
+      await recordOrderEvent(req, order.id, "created", null, orderSnapshot(created));
+      return res.status(201).json(created);
     }
 
     return res.status(405).json({ message: "Method not allowed" });
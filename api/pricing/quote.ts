@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { quoteOrder, validateItems, withCupDepositItems } from "../_lib/menu";
+import { resolveCoupon } from "../_lib/coupons";
+import { resolveTicket } from "../_lib/tickets";
+import { toCouponTerms } from "../../shared/coupon";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") return res.status(405).json({ message: "Method not allowed" });
+
+  const { items, couponCode, ticketCode } = req.body ?? {};
+  const invalid = validateItems(items);
+  if (invalid) return res.status(400).json({ message: invalid });
+
+  try {
+    const couponResult = await resolveCoupon(couponCode);
+    if ("rejection" in couponResult) {
+      return res.status(422).json({ message: "Coupon not applicable", reason: couponResult.rejection });
+    }
+    const { coupon } = couponResult;
+    const ticketResult = await resolveTicket(ticketCode);
+    if ("rejection" in ticketResult) {
+      return res.status(422).json({ message: "Ticket not applicable", reason: ticketResult.rejection });
+    }
+    return res.json(quoteOrder(withCupDepositItems(items), coupon && toCouponTerms(coupon), ticketResult.ticket?.remainingDrinks));
+  } catch (err: any) {
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
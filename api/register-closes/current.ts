@@ -0,0 +1,13 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { summarizeCurrentPeriod } from "../_lib/registerCloses";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") return res.status(405).json({ message: "Method not allowed" });
+
+  try {
+    return res.json(await summarizeCurrentPeriod());
+  } catch (err: any) {
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
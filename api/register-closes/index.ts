@@ -0,0 +1,58 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { registerCloseRequestSchema } from "../../shared/schema";
+import { closeRegister } from "../../shared/registerClose";
+import { supabase } from "../_lib/supabase";
+import { mapRegisterClose, summarizeCurrentPeriod } from "../_lib/registerCloses";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("register_closes")
+        .select("*")
+        .order("closed_at", { ascending: false });
+      if (error) throw error;
+      return res.json((data ?? []).map(mapRegisterClose));
+    }
+
+    if (req.method === "POST") {
+      const closeRequest = registerCloseRequestSchema.parse(req.body);
+      // 想定額はクライアントの表示値ではなく締めた時点の記録から計算する
+      const registerClose = closeRegister(await summarizeCurrentPeriod(), closeRequest);
+
+      const { data, error } = await supabase
+        .from("register_closes")
+        .insert({
+          period_start: registerClose.periodStart,
+          opening_float: registerClose.openingFloat,
+          denomination_counts: registerClose.denominationCounts,
+          counted_cash: registerClose.countedCash,
+          cash_sales: registerClose.cashSales,
+          expected_cash: registerClose.expectedCash,
+          difference: registerClose.difference,
+          payment_totals: registerClose.paymentTotals,
+          sales_total: registerClose.salesTotal,
+          refund_total: registerClose.refundTotal,
+          cash_refund_total: registerClose.cashRefundTotal,
+          deposit_total: registerClose.depositTotal,
+          deposit_refund_total: registerClose.depositRefundTotal,
+          order_count: registerClose.orderCount,
+          note: registerClose.note,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      return res.status(201).json(mapRegisterClose(data));
+    }
+
+    return res.status(405).json({ message: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid register close data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
@@ -0,0 +1,15 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getTicketByCode } from "../_lib/tickets";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") return res.status(405).json({ message: "Method not allowed" });
+
+  try {
+    const ticket = await getTicketByCode(String(req.query.code));
+    if (!ticket) return res.status(404).json({ message: "Ticket not found" });
+    return res.json(ticket);
+  } catch (err: any) {
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { ticketIssueRequestSchema } from "../../shared/schema";
+import { generateTicketCode } from "../../shared/ticket";
+import { isAdminRequest } from "../../shared/admin";
+import { supabase } from "../_lib/supabase";
+import { mapTicket } from "../_lib/tickets";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("tickets")
+        .select("*")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return res.json((data ?? []).map(mapTicket));
+    }
+
+    // 前売りチケットの発行は管理者のみ
+    if (req.method === "POST") {
+      if (!isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required" });
+      }
+
+      const { count, drinks, price, validUntil } = ticketIssueRequestSchema.parse(req.body);
+
+      // コードが既存のチケットと重複した場合は unique 制約で失敗する（発行し直してもらう）
+      const { data, error } = await supabase
+        .from("tickets")
+        .insert(
+          Array.from({ length: count }, () => ({
+            code: generateTicketCode(),
+            drinks,
+            remaining_drinks: drinks,
+            price,
+            valid_until: validUntil ?? null,
+          }))
+        )
+        .select();
+      // 23505: unique_violation
+      if (error?.code === "23505") return res.status(409).json({ message: "Ticket code collision, please retry" });
+      if (error) throw error;
+
+      return res.status(201).json((data ?? []).map(mapTicket));
+    }
+
+    return res.status(405).json({ message: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid ticket data", errors: err.errors });
+    }
+    console.error(err);
+    return res.status(500).json({ message: err.message ?? "Internal server error" });
+  }
+}
@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import RegisterView from "@/pages/RegisterView";
 import KitchenView from "@/pages/KitchenView";
+import AdminView from "@/pages/AdminView";
 import ViewSwitcher from "@/components/ViewSwitcher";
 import { Navigation2 } from "lucide-react";
 
@@ -31,6 +32,8 @@ function App() {
             <Switch>
               <Route path="/" component={RegisterView} />
               <Route path="/kitchen" component={KitchenView} />
+              {/* 管理者向け（画面の切り替えボタンには出さない） */}
+              <Route path="/admin" component={AdminView} />
               <Route component={NotFound} />
             </Switch>
           </main>
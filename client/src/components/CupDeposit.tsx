@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Minus, Plus, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cupReturnRejectionMessages, type CupReturnRejection, type CupSummary } from "@shared/deposit";
+
+// リユースカップの貸出数・返却数と、カップ返却（デポジットの返金）
+export default function CupDeposit() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [cups, setCups] = useState(1);
+  const [isReturning, setIsReturning] = useState(false);
+
+  // 注文・返金は他の端末からも入るので定期的に取り直す
+  const { data: summary } = useQuery<CupSummary>({
+    queryKey: ["/api/cups"],
+    refetchInterval: 5000,
+  });
+
+  // Format price from cents to display format
+  const formatPrice = (priceInCents: number) => {
+    return `${priceInCents < 0 ? "-" : ""}¥${(Math.abs(priceInCents) / 100).toLocaleString()}`;
+  };
+
+  if (!summary?.enabled) return null;
+
+  const handleOpen = () => {
+    setCups(1);
+    setIsOpen(true);
+  };
+
+  const handleReturn = async () => {
+    if (isReturning) return;
+
+    setIsReturning(true);
+    try {
+      const response = await fetch("/api/cup-returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cups }),
+        credentials: "include",
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const reason = body.reason as CupReturnRejection | undefined;
+        throw new Error(reason ? cupReturnRejectionMessages[reason] : body.message);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/cups"] });
+      toast({
+        title: "カップを返却しました",
+        description: `デポジット ${formatPrice(-body.amount)} をお返しください。`,
+      });
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "カップ返却に失敗しました",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsReturning(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">リユースカップ</h2>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={handleOpen}
+            disabled={summary.cupsOutstanding === 0}
+          >
+            <Undo2 className="h-4 w-4" />
+            カップ返却
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-sm text-gray-500">貸出中</div>
+            <div className="text-2xl font-bold">{summary.cupsOutstanding}</div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-500">貸出</div>
+            <div className="text-2xl">{summary.cupsOut}</div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-500">返却</div>
+            <div className="text-2xl">{summary.cupsReturned}</div>
+          </div>
+        </div>
+        <div className="flex justify-between text-sm text-gray-600 mt-4">
+          <span>デポジット預り {formatPrice(summary.depositTotal)}</span>
+          <span>返却 {formatPrice(summary.depositRefundTotal)}</span>
+        </div>
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && !isReturning && setIsOpen(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>カップ返却</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label>返却されたカップの数</Label>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCups((prev) => Math.max(1, prev - 1))}
+                disabled={isReturning}
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <Input
+                type="number"
+                min="1"
+                max={summary.cupsOutstanding}
+                className="w-20 text-center"
+                value={cups}
+                onChange={(e) => setCups(Math.max(1, parseInt(e.target.value) || 1))}
+                disabled={isReturning}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCups((prev) => Math.min(summary.cupsOutstanding, prev + 1))}
+                disabled={isReturning}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-between font-bold text-lg pt-2">
+              <span>お返しするデポジット</span>
+              <span>{formatPrice(summary.depositPrice * cups)}</span>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isReturning}>
+              キャンセル
+            </Button>
+            <Button onClick={handleReturn} disabled={isReturning || cups > summary.cupsOutstanding}>
+              {isReturning ? "処理中..." : "返却してデポジットを返す"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,19 +1,30 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { MenuItem } from "@shared/schema";
+import { MenuItem, ProductType, type SelectedOption } from "@shared/schema";
 import { MENU_ITEMS } from "@shared/menuData";
+import { isCupDepositItem } from "@shared/deposit";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useOrderStore } from "@/hooks/use-order-store";
 import { Input } from "@/components/ui/input";
 import { Plus, Minus } from "lucide-react";
+import OptionPicker from "@/components/OptionPicker";
 
-type CategoryType = "all" | "お酒" | "ソフトドリンク";
+type CategoryType = "all" | "お酒" | "ソフトドリンク" | "物販";
+
+// ドリンクとそれ以外（セット価格の対象外）は分けて表示する
+const productGroups: Array<{ type: ProductType; label: string }> = [
+  { type: "drink", label: "ドリンク" },
+  { type: "retail", label: "物販" },
+  { type: "deposit", label: "デポジット" },
+];
 
 export default function MenuGrid() {
   const [activeCategory, setActiveCategory] = useState<CategoryType>("all");
   const [quantities, setQuantities] = useState<Record<number, number>>({});
+  // オプションを選んでいる商品
+  const [pickingItem, setPickingItem] = useState<MenuItem | null>(null);
   const { data: menuItems, isLoading } = useQuery<MenuItem[]>({
     queryKey: ["/api/menu-items"],
     placeholderData: MENU_ITEMS,
@@ -22,23 +33,45 @@ export default function MenuGrid() {
   const addItemToCart = useOrderStore((state) => state.addItemToCart);
   const updateItemQuantity = useOrderStore((state) => state.updateItemQuantity);
 
-  const filteredItems = menuItems?.filter((item) => 
-    activeCategory === "all" || item.category === activeCategory
+  // リユースカップのデポジットはドリンクに合わせて自動で追加するのでメニューに出さない
+  const filteredItems = menuItems?.filter((item) => !isCupDepositItem(item)).filter((item) => 
+    activeCategory === "all" ||
+    (activeCategory === "物販" ? item.productType === "retail" : item.category === activeCategory)
   );
+  const groupedItems = productGroups
+    .map((group) => ({
+      ...group,
+      items: filteredItems?.filter((item) => (item.productType ?? "drink") === group.type) ?? [],
+    }))
+    .filter((group) => group.items.length > 0);
   
   const handleCategoryClick = (category: CategoryType) => {
     setActiveCategory(category);
   };
   
-  const handleAddToCart = (item: MenuItem) => {
+  const addToCart = (item: MenuItem, options: SelectedOption[] = []) => {
     const quantity = quantities[item.id] || 1;
     for (let i = 0; i < quantity; i++) {
-      addItemToCart(item);
+      addItemToCart(item, options);
     }
     // Reset quantity after adding to cart
     setQuantities(prev => ({...prev, [item.id]: 1}));
   };
   
+  const handleAddToCart = (item: MenuItem) => {
+    // オプションのある商品は選んでから追加する
+    if (item.optionGroups?.length) {
+      setPickingItem(item);
+      return;
+    }
+    addToCart(item);
+  };
+  
+  const handleConfirmOptions = (options: SelectedOption[]) => {
+    if (pickingItem) addToCart(pickingItem, options);
+    setPickingItem(null);
+  };
+  
   const handleQuantityChange = (id: number, value: number) => {
     if (value >= 1) {
       setQuantities(prev => ({...prev, [id]: value}));
@@ -90,6 +123,16 @@ export default function MenuGrid() {
             >
               ソフトドリンク
             </Button>
+            {menuItems?.some((item) => item.productType === "retail") && (
+              <Button
+                variant={activeCategory === "物販" ? "default" : "outline"}
+                size="sm"
+                className="rounded-full"
+                onClick={() => handleCategoryClick("物販")}
+              >
+                物販
+              </Button>
+            )}
           </div>
         </div>
         
@@ -106,52 +149,72 @@ export default function MenuGrid() {
             ))}
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
-            {filteredItems?.map((item) => (
-              <div
-                key={item.id}
-                className="p-4 border rounded-lg hover:shadow-md transition-all"
-              >
-                <div className="font-medium text-gray-800 mb-3">{item.name}</div>
-                
-                <div className="flex items-center justify-between mt-2">
-                  <div className="flex items-center">
-                    <Button 
-                      variant="outline" 
-                      size="icon" 
-                      className="h-8 w-8"
-                      onClick={() => decrementQuantity(item.id)}
-                    >
-                      <Minus className="h-3 w-3" />
-                    </Button>
-                    <Input
-                      type="number"
-                      min="1"
-                      value={quantities[item.id] || 1}
-                      onChange={(e) => handleQuantityChange(item.id, parseInt(e.target.value) || 1)}
-                      className="w-12 h-8 mx-1 text-center"
-                    />
-                    <Button 
-                      variant="outline" 
-                      size="icon" 
-                      className="h-8 w-8"
-                      onClick={() => incrementQuantity(item.id)}
-                    >
-                      <Plus className="h-3 w-3" />
-                    </Button>
-                  </div>
-                  <Button 
-                    size="sm" 
-                    onClick={() => handleAddToCart(item)}
+          groupedItems.map((group) => (
+            <div key={group.type}>
+              {groupedItems.length > 1 && (
+                <h3 className="text-sm font-semibold text-gray-600 mb-2">{group.label}</h3>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+                {group.items.map((item) => (
+                  <div
+                    key={item.id}
+                    className="p-4 border rounded-lg hover:shadow-md transition-all"
                   >
-                    追加
-                  </Button>
-                </div>
+                    <div className="font-medium text-gray-800 mb-3">
+                      {item.name}
+                      {/* セット価格の対象外の商品は単価を表示する */}
+                      {item.productType !== "drink" && (
+                        <span className="ml-2 text-sm text-gray-500">{formatPrice(item.price)}</span>
+                      )}
+                    </div>
+                    
+                    <div className="flex items-center justify-between mt-2">
+                      <div className="flex items-center">
+                        <Button 
+                          variant="outline" 
+                          size="icon" 
+                          className="h-8 w-8"
+                          onClick={() => decrementQuantity(item.id)}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={quantities[item.id] || 1}
+                          onChange={(e) => handleQuantityChange(item.id, parseInt(e.target.value) || 1)}
+                          className="w-12 h-8 mx-1 text-center"
+                        />
+                        <Button 
+                          variant="outline" 
+                          size="icon" 
+                          className="h-8 w-8"
+                          onClick={() => incrementQuantity(item.id)}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <Button 
+                        size="sm" 
+                        onClick={() => handleAddToCart(item)}
+                      >
+                        追加
+                      </Button>
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </div>
+          ))
         )}
       </CardContent>
+      
+      <OptionPicker
+        menuItem={pickingItem}
+        quantity={pickingItem ? quantities[pickingItem.id] || 1 : 1}
+        onClose={() => setPickingItem(null)}
+        onConfirm={handleConfirmOptions}
+      />
     </Card>
   );
 }
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import type { MenuItem, OptionSelection, SelectedOption } from "@shared/schema";
+import { defaultOptionSelections, resolveOptions } from "@shared/menuOption";
+import { formatYen } from "@/lib/print";
+
+interface OptionPickerProps {
+  // オプションを選ぶ商品（null で閉じる）
+  menuItem: MenuItem | null;
+  quantity: number;
+  onClose: () => void;
+  onConfirm: (options: SelectedOption[]) => void;
+}
+
+// 氷の量・飲み方などのオプションを選んでからカートに追加する
+export default function OptionPicker({ menuItem, quantity, onClose, onConfirm }: OptionPickerProps) {
+  const [selections, setSelections] = useState<OptionSelection[]>([]);
+
+  useEffect(() => {
+    if (menuItem) setSelections(defaultOptionSelections(menuItem));
+  }, [menuItem]);
+
+  const selectedOptionId = (groupId: string) =>
+    selections.find((selection) => selection.groupId === groupId)?.optionId;
+
+  // 任意の項目は「なし」（optionId が undefined）を選べる
+  const select = (groupId: string, optionId: string | undefined) => {
+    setSelections((prev) => [
+      ...prev.filter((selection) => selection.groupId !== groupId),
+      ...(optionId ? [{ groupId, optionId }] : []),
+    ]);
+  };
+
+  const result = menuItem ? resolveOptions(menuItem, selections) : undefined;
+
+  const handleConfirm = () => {
+    if (!result || !("options" in result)) return;
+    onConfirm(result.options);
+  };
+
+  return (
+    <Dialog open={!!menuItem} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{menuItem?.name}</DialogTitle>
+          <DialogDescription>オプションを選んでください（{quantity}{menuItem?.productType === "drink" ? "杯" : "個"}）</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {menuItem?.optionGroups?.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <div className="text-sm font-medium">
+                {group.name}
+                {group.required && <span className="ml-1 text-xs text-red-600">必須</span>}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {!group.required && (
+                  <Button
+                    variant={selectedOptionId(group.id) === undefined ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => select(group.id, undefined)}
+                  >
+                    なし
+                  </Button>
+                )}
+                {group.options.map((option) => (
+                  <Button
+                    key={option.id}
+                    variant={selectedOptionId(group.id) === option.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => select(group.id, option.id)}
+                  >
+                    {option.name}
+                    {option.priceDelta > 0 && ` +${formatYen(option.priceDelta)}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            キャンセル
+          </Button>
+          <Button onClick={handleConfirm} disabled={!result || !("options" in result)}>
+            カートに追加
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
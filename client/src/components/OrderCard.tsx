@@ -1,8 +1,11 @@
 import { OrderWithItems, OrderStatus } from "@shared/schema";
+import { acceptsItemProgress, cancelReasonLabels, isKitchenLine, orderStatusLabels } from "@shared/orderStatus";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { Button } from "@/components/ui/button";
-import { Clock } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Clock, StickyNote } from "lucide-react";
 import { useOrderStore } from "@/hooks/use-order-store";
+import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow, parseISO } from "date-fns";
 import { ja } from "date-fns/locale";
 
@@ -10,7 +13,13 @@ type OrderCardProps = {
   order: OrderWithItems;
 };
 
-const statusColorMap = {
+const statusColorMap: Record<OrderStatus, { bg: string; border: string; header: string; divider: string }> = {
+  "new": {
+    bg: "bg-blue-100",
+    border: "border-blue-500",
+    header: "bg-blue-500",
+    divider: "border-blue-200",
+  },
   "in-progress": {
     bg: "bg-yellow-100",
     border: "border-yellow-500",
@@ -23,24 +32,69 @@ const statusColorMap = {
     header: "bg-green-500",
     divider: "border-green-200",
   },
+  "picked-up": {
+    bg: "bg-gray-100",
+    border: "border-gray-400",
+    header: "bg-gray-500",
+    divider: "border-gray-200",
+  },
+  "cancelled": {
+    bg: "bg-red-50",
+    border: "border-red-400",
+    header: "bg-red-500",
+    divider: "border-red-200",
+  },
+};
+
+// 各ステータスで次に進めるボタン（受け渡し済み・取消は操作なし）
+const nextAction: Partial<Record<OrderStatus, { status: OrderStatus; label: string; className: string }>> = {
+  "new": { status: "in-progress", label: "調理開始", className: "bg-yellow-500 hover:bg-yellow-600" },
+  "in-progress": { status: "ready", label: "完了", className: "bg-green-500 hover:bg-green-600" },
+  "ready": { status: "picked-up", label: "受け渡し", className: "bg-gray-600 hover:bg-gray-700" },
 };
 
 export default function OrderCard({ order }: OrderCardProps) {
   const updateOrderStatus = useOrderStore((state) => state.updateOrderStatus);
+  const updateItemProgress = useOrderStore((state) => state.updateItemProgress);
+  const { toast } = useToast();
   
   // デフォルト値を設定して、存在しないステータスでもエラーにならないようにする
-  const status = (order.status === "in-progress" || order.status === "ready") ? 
-                  order.status as "in-progress" | "ready" : "in-progress";
+  const parsedStatus = OrderStatus.safeParse(order.status);
+  const status: OrderStatus = parsedStatus.success ? parsedStatus.data : "new";
   const statusColors = statusColorMap[status];
+  const action = nextAction[status];
+  const isCancelled = status === "cancelled";
   
-  const handleStatusChange = async (newStatus: "in-progress" | "ready") => {
+  const handleStatusChange = async (newStatus: OrderStatus) => {
     try {
       await updateOrderStatus(order.id, newStatus);
     } catch (error) {
+      // 他の端末で先に変更されていた場合など
       console.error("Failed to update order status:", error);
+      toast({
+        title: "ステータスを変更できません",
+        description: "画面を更新してからもう一度お試しください",
+        variant: "destructive",
+      });
     }
   };
   
+  // 明細のチェック。他の端末で先に変わっていた場合は注文一覧の再取得で表示が戻る
+  const handleItemProgress = async (itemId: number, completedQuantity: number) => {
+    try {
+      await updateItemProgress(order.id, itemId, completedQuantity);
+    } catch (error) {
+      console.error("Failed to update item progress:", error);
+      toast({
+        title: "チェックを記録できません",
+        description: "画面を更新してからもう一度お試しください",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canTick = acceptsItemProgress(status);
+  
   // Calculate time since order was created
   const getTimeSince = (dateString: string) => {
     try {
@@ -72,28 +126,107 @@ export default function OrderCard({ order }: OrderCardProps) {
       
       <div className="p-4">
         <div className="space-y-3 mb-4">
-          {order.items?.map((item) => (
-            <div 
-              key={item.id}
-              className={`flex justify-between py-2 border-b ${statusColors.divider}`}
-            >
-              <span className="font-medium text-lg">{item.menuItem.name}</span>
-              <span className="text-lg">× {item.quantity}</span>
+          {/* 取消の注文は作らないよう取り消し線で表示する */}
+          {isCancelled && (
+            <div className="text-center text-2xl font-bold text-red-600">
+              取消
+              {order.cancelReason && (
+                <span className="ml-2 text-sm font-normal">
+                  （{cancelReasonLabels[order.cancelReason as keyof typeof cancelReasonLabels] ?? order.cancelReason}）
+                </span>
+              )}
+            </div>
+          )}
+          {/* 注文全体へのメモは見落とさないよう明細の上に目立たせて出す */}
+          {order.note && (
+            <div className="flex items-start gap-2 rounded-md border-2 border-amber-400 bg-amber-100 px-3 py-2 text-lg font-bold text-amber-900">
+              <StickyNote className="h-5 w-5 mt-1 shrink-0" />
+              <span className="break-words">{order.note}</span>
             </div>
-          ))}
+          )}
+          {order.items?.map((item) => {
+            const kitchenLine = isKitchenLine(item);
+            // 「完了」ボタンで完了にした注文もサーバーで全明細を済みとして記録しているので、記録どおりに表示する
+            const completed = item.completedQuantity ?? 0;
+            const lineDone = kitchenLine && completed >= item.quantity;
+            return (
+              <div 
+                key={item.id}
+                className={`py-2 border-b ${statusColors.divider} ${isCancelled ? "line-through text-gray-500" : ""}`}
+              >
+                <div className="flex justify-between items-center gap-2">
+                  <label className="flex items-center gap-2">
+                    {kitchenLine && !isCancelled && (
+                      <Checkbox
+                        className="h-6 w-6"
+                        checked={lineDone}
+                        disabled={!canTick}
+                        onCheckedChange={(checked) => handleItemProgress(item.id, checked ? item.quantity : 0)}
+                      />
+                    )}
+                    <span className={`font-medium text-lg ${lineDone ? "line-through text-gray-500" : ""}`}>
+                      {item.menuItem.name}
+                    </span>
+                  </label>
+                  <span className="text-lg">
+                    {kitchenLine && item.quantity > 1 && !isCancelled && (
+                      <span className="text-sm text-gray-600 mr-2">{completed}/{item.quantity}</span>
+                    )}
+                    × {item.quantity}
+                  </span>
+                </div>
+                {item.options && item.options.length > 0 && (
+                  <div className="mt-1 ml-8 flex flex-wrap gap-1">
+                    {item.options.map((option) => (
+                      <span
+                        key={option.groupId}
+                        className="rounded border border-blue-300 bg-blue-50 px-2 py-0.5 text-sm font-bold text-blue-900"
+                      >
+                        {option.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {item.note && (
+                  <div className="mt-1 ml-8 inline-block rounded bg-amber-100 px-2 py-0.5 font-bold text-amber-900">
+                    {item.note}
+                  </div>
+                )}
+                {/* 複数杯の明細は1杯ずつチェックできる */}
+                {kitchenLine && item.quantity > 1 && !isCancelled && (
+                  <div className="flex flex-wrap gap-1 mt-2 ml-8">
+                    {Array.from({ length: item.quantity }, (_, index) => {
+                      const unit = index + 1;
+                      const unitDone = unit <= completed;
+                      return (
+                        <button
+                          key={unit}
+                          type="button"
+                          className={`h-6 w-6 rounded-full border-2 ${statusColors.border} ${unitDone ? statusColors.header : "bg-white"} disabled:cursor-not-allowed`}
+                          aria-label={`${unit}杯目`}
+                          disabled={!canTick}
+                          onClick={() => handleItemProgress(item.id, unitDone ? unit - 1 : unit)}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
         
         <div className="flex justify-between mt-4">
-          {status === "in-progress" ? (
+          {action ? (
             <Button 
-              className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg"
-              onClick={() => handleStatusChange("ready")}
+              className={`px-4 py-2 ${action.className} text-white rounded-lg`}
+              onClick={() => handleStatusChange(action.status)}
             >
-              完了
+              {action.label}
             </Button>
           ) : (
             <span className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg cursor-not-allowed">
-              提供済み
+              {orderStatusLabels[status]}
             </span>
           )}
           
@@ -1,7 +1,7 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, Edit2, Plus, Trash2, Download } from "lucide-react";
+import { FileText, Edit2, Plus, Trash2, Download, RotateCcw, Printer, Ban } from "lucide-react";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format, parseISO } from "date-fns";
@@ -13,6 +13,23 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  CancelReason,
+  OrderStatus,
+  PaymentMethod,
+  RefundReason,
+  type LineAdjustment,
+  type MenuOptionGroup,
+  type SelectedOption,
+} from "@shared/schema";
+import { adjustmentKindLabels, adjustmentOf, adjustmentReasonLabels } from "@shared/adjustment";
+import { acceptsRefund, refundableQuantities, refundReasonLabels, refundRejectionMessages, refundTotal } from "@shared/refund";
+import { paymentBalance, paymentMethodLabels } from "@shared/payment";
+import { isCupDepositItem } from "@shared/deposit";
+import { defaultOptionSelections, optionsLabel, resolveOptions } from "@shared/menuOption";
+import { cancelReasonLabels, isCancellable, isEditableStatus, orderStatusLabels } from "@shared/orderStatus";
+import ReceiptDialog from "@/components/ReceiptDialog";
+import OrderTimeline from "@/components/OrderTimeline";
 
 // Define types for order items
 interface MenuItem {
@@ -21,36 +38,84 @@ interface MenuItem {
   description: string;
   price: number;
   category: string;
+  productType: "drink" | "retail" | "deposit";
+  taxRate: number;
   imageUrl?: string;
+  optionGroups?: MenuOptionGroup[];
 }
 
 interface OrderItemWithMenuItem {
   id: number;
   menuItem: MenuItem;
   quantity: number;
+  price: number;
+  adjustmentKind: string | null;
+  adjustmentReason: string | null;
+  adjustmentApprovedBy: string | null;
+  originalPrice: number | null;
+  note: string | null;
+  options: SelectedOption[];
 }
 
-type OrderStatus = "in-progress" | "ready";
+interface Payment {
+  id: number;
+  method: PaymentMethod;
+  amount: number;
+  tenderedAmount: number;
+  changeAmount: number;
+  createdAt: string;
+}
+
+interface Refund {
+  id: number;
+  amount: number;
+  reason: RefundReason;
+  taxableAmount10: number;
+  taxAmount10: number;
+  taxableAmount8: number;
+  taxAmount8: number;
+  createdAt: string;
+  lines: Array<{ id: number; orderItemId: number; quantity: number; amount: number }>;
+}
 
 interface OrderWithItems {
   id: number;
   orderNumber: string;
   status: OrderStatus;
   totalAmount: number;
+  taxableAmount10: number;
+  taxAmount10: number;
+  taxableAmount8: number;
+  taxAmount8: number;
+  adjustmentAmount: number;
+  depositAmount: number;
+  cancelReason: CancelReason | null;
+  cancelledAt: string | null;
+  note: string | null;
   createdAt: string;
   updatedAt: string;
   items: OrderItemWithMenuItem[];
+  payments: Payment[];
+  refunds: Refund[];
 }
 
 export default function OrderHistory() {
   const queryClient = useQueryClient();
   const { createOrder, updateOrder } = useOrderStore();
   const [editingOrder, setEditingOrder] = useState<OrderWithItems | null>(null);
-  const [editedItems, setEditedItems] = useState<Array<{ id?: number; menuItemId: number; quantity: number }>>([]);
+  const [editedItems, setEditedItems] = useState<Array<{ id?: number; menuItemId: number; quantity: number; options: SelectedOption[]; adjustment?: LineAdjustment; note?: string }>>([]);
+  const [editedNote, setEditedNote] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
-  const [orderToDelete, setOrderToDelete] = useState<OrderWithItems | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [orderToCancel, setOrderToCancel] = useState<OrderWithItems | null>(null);
+  const [cancelReason, setCancelReason] = useState<CancelReason>("customer-request");
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [refundingOrder, setRefundingOrder] = useState<OrderWithItems | null>(null);
+  const [refundQuantities, setRefundQuantities] = useState<Record<number, number>>({});
+  const [refundReason, setRefundReason] = useState<RefundReason>("customer-request");
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>("cash");
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [receiptOrder, setReceiptOrder] = useState<OrderWithItems | null>(null);
   
   const { data: orders, isLoading } = useQuery<OrderWithItems[]>({
     queryKey: ["/api/orders"],
@@ -84,6 +149,12 @@ export default function OrderHistory() {
     return `¥${(priceInCents / 100).toLocaleString()}`;
   };
   
+  // 商品を選び直したときのオプション（必須の項目は先頭の選択肢）
+  const defaultOptions = (menuItem: MenuItem): SelectedOption[] => {
+    const result = resolveOptions(menuItem, defaultOptionSelections(menuItem));
+    return "options" in result ? result.options : [];
+  };
+  
   // Format timestamp
   const formatTime = (timestamp: string) => {
     try {
@@ -95,11 +166,17 @@ export default function OrderHistory() {
 
   const handleEditClick = (order: OrderWithItems) => {
     setEditingOrder(order);
-    setEditedItems(order.items.map((item: OrderItemWithMenuItem) => ({
+    // リユースカップのデポジットは保存時にドリンクの杯数から付け直すので編集の対象にしない
+    setEditedItems(order.items.filter((item) => !isCupDepositItem(item.menuItem)).map((item: OrderItemWithMenuItem) => ({
       id: item.id,
       menuItemId: item.menuItem.id,
-      quantity: item.quantity
+      quantity: item.quantity,
+      options: item.options ?? [],
+      // コンプ・価格変更は編集後も引き継ぐ
+      adjustment: adjustmentOf(item),
+      note: item.note ?? ""
     })));
+    setEditedNote(order.note ?? "");
   };
 
   const handleQuantityChange = (index: number, newQuantity: number) => {
@@ -112,7 +189,8 @@ export default function OrderHistory() {
     if (!menuItems?.length) return;
     setEditedItems(prev => [...prev, {
       menuItemId: menuItems[0].id,
-      quantity: 1
+      quantity: 1,
+      options: defaultOptions(menuItems[0])
     }]);
   };
 
@@ -120,9 +198,16 @@ export default function OrderHistory() {
     setEditedItems(prev => prev.filter((_, i) => i !== index));
   };
 
+  const handleItemNoteChange = (index: number, note: string) => {
+    setEditedItems(prev => prev.map((item, i) => 
+      i === index ? { ...item, note } : item
+    ));
+  };
+
   const handleMenuItemChange = (index: number, menuItemId: number) => {
+    const menuItem = menuItems?.find((candidate) => candidate.id === menuItemId);
     setEditedItems(prev => prev.map((item, i) => 
-      i === index ? { ...item, menuItemId } : item
+      i === index ? { ...item, menuItemId, options: menuItem ? defaultOptions(menuItem) : [] } : item
     ));
   };
 
@@ -148,12 +233,15 @@ export default function OrderHistory() {
       // 注文内容を更新
       await updateOrder(
         editingOrder.id,
-        editingOrder.orderNumber,
         editingOrder.status,
         editedItems.map(item => ({
           menuItemId: item.menuItemId,
-          quantity: item.quantity
-        }))
+          quantity: item.quantity,
+          options: item.options,
+          adjustment: item.adjustment,
+          note: item.note
+        })),
+        editedNote
       );
 
       // データを再取得
@@ -167,6 +255,11 @@ export default function OrderHistory() {
       setEditedItems([]);
     } catch (error) {
       console.error('Failed to update order:', error);
+      // 会計済みの注文で金額が変わる場合は 409 が返る
+      if (error instanceof Error && error.message.startsWith("409") && error.message.includes("Order has payments")) {
+        toast.error("会計済みの注文は金額が変わる変更はできません。追加の注文は新しい注文として受けてください。");
+        return;
+      }
       toast.error(error instanceof Error ? error.message : "注文内容の更新に失敗しました");
     } finally {
       setIsSaving(false);
@@ -174,18 +267,19 @@ export default function OrderHistory() {
   };
 
   // Delete order
-  const handleDeleteClick = (order: OrderWithItems) => {
-    setOrderToDelete(order);
+  // 注文の取消（削除せず、理由と日時を付けて残す）
+  const handleCancelClick = (order: OrderWithItems) => {
+    setOrderToCancel(order);
+    setCancelReason("customer-request");
   };
 
-  const handleConfirmDelete = async () => {
-    if (!orderToDelete || isDeleting) return;
+  const handleConfirmCancel = async () => {
+    if (!orderToCancel || isCancelling) return;
 
     try {
-      setIsDeleting(true);
+      setIsCancelling(true);
       
-      // Delete the order
-      await apiRequest('DELETE', `/api/orders/${orderToDelete.id}`);
+      await apiRequest('POST', `/api/orders/${orderToCancel.id}/cancel`, { reason: cancelReason });
       
       // Invalidate queries to refresh the data
       await queryClient.invalidateQueries({
@@ -193,13 +287,64 @@ export default function OrderHistory() {
         refetchType: 'all'
       });
       
-      toast.success("注文を削除しました");
-      setOrderToDelete(null);
+      toast.success("注文を取り消しました");
+      setOrderToCancel(null);
+    } catch (error) {
+      console.error('Failed to cancel order:', error);
+      toast.error(error instanceof Error ? error.message : "注文の取消に失敗しました");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // Refund order (full or selected lines)
+  const handleRefundClick = (order: OrderWithItems) => {
+    setRefundingOrder(order);
+    setRefundQuantities({});
+    setRefundReason("customer-request");
+    // 返金方法は支払いと同じ方法を初期値にする（現金はレジ締めで想定額から差し引く）
+    setRefundMethod((order.payments?.[0]?.method as PaymentMethod | undefined) ?? "cash");
+  };
+
+  const handleConfirmRefund = async (fullRefund: boolean) => {
+    if (!refundingOrder || isRefunding) return;
+
+    // 明細を指定しない場合はサーバー側で未返金の明細をすべて返金する
+    const lines = Object.entries(refundQuantities)
+      .filter(([_, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId: Number(orderItemId), quantity }));
+    if (!fullRefund && lines.length === 0) {
+      toast.error("返金する明細の数量を指定してください");
+      return;
+    }
+
+    try {
+      setIsRefunding(true);
+
+      const response = await apiRequest('POST', `/api/orders/${refundingOrder.id}/refunds`, {
+        reason: refundReason,
+        method: refundMethod,
+        lines: fullRefund ? undefined : lines
+      });
+      const refund: Refund = await response.json();
+
+      await queryClient.invalidateQueries({
+        queryKey: ["/api/orders"],
+        refetchType: 'all'
+      });
+
+      toast.success(`${formatPrice(-refund.amount)} を返金しました`);
+      setRefundingOrder(null);
     } catch (error) {
-      console.error('Failed to delete order:', error);
-      toast.error(error instanceof Error ? error.message : "注文の削除に失敗しました");
+      console.error('Failed to refund order:', error);
+      // QR決済・カードの返金は決済端末で取り消せなかった場合に 422 が返る
+      if (error instanceof Error && error.message.startsWith("422") && error.message.includes("charge-refund-failed")) {
+        toast.error(refundRejectionMessages["charge-refund-failed"]);
+        return;
+      }
+      toast.error("返金に失敗しました");
     } finally {
-      setIsDeleting(false);
+      setIsRefunding(false);
     }
   };
 
@@ -220,34 +365,101 @@ export default function OrderHistory() {
       }
 
       // CSVヘッダーを作成
-      const headers = ["注文番号", "日時", "金額", "ステータス", "注文内容"];
+      const headers = ["注文番号", "日時", "金額", "10%対象", "消費税(10%)", "8%対象", "消費税(8%)", "ステータス", "注文内容", "メモ", "物販", "物販金額", "デポジット", "コンプ・価格変更額", "コンプ・価格変更内容",
+        ...PaymentMethod.options.map((method) => `支払(${paymentMethodLabels[method]})`), "未払い"];
       
-      // 各注文をCSV行にフォーマット
-      const csvRows = allOrders.map(order => {
+      // CSVエスケープ処理
+      const escapeCsvValue = (value: string) => {
+        if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+          return `"${value.replace(/"/g, '""')}"`;
+        }
+        return value;
+      };
+      
+      // 各注文をCSV行にフォーマット。返金は元の注文の後にマイナスの行として出力する
+      const csvRows = allOrders.flatMap(order => {
         const orderDate = format(parseISO(order.createdAt.toString()), "yyyy/MM/dd HH:mm:ss");
-        const status = order.status === "in-progress" ? "準備中" : "準備完了";
+        const status = order.cancelReason
+          ? `${orderStatusLabels[order.status]}（${cancelReasonLabels[order.cancelReason]}）`
+          : orderStatusLabels[order.status] ?? order.status;
         const amount = formatPrice(order.totalAmount);
         
-        // 注文アイテムを処理
-        const items = order.items.map((item) => 
+        // 注文アイテムを処理（ドリンクと物販は別の列に分ける）
+        const drinkItems = order.items.filter((item) => (item.menuItem.productType ?? "drink") === "drink");
+        const retailItems = order.items.filter((item) => item.menuItem.productType === "retail");
+        const items = drinkItems.map((item) => 
+          `${item.menuItem.name}${item.options?.length ? `（${optionsLabel(item.options)}）` : ""} × ${item.quantity}`
+        ).join(", ");
+        const retail = retailItems.map((item) => 
           `${item.menuItem.name} × ${item.quantity}`
         ).join(", ");
+        const retailAmount = formatPrice(retailItems.reduce((total, item) => total + item.price, 0));
+        // 注文全体のメモと、明細ごとのメモ（商品名を付ける）
+        const notes = [
+          order.note,
+          ...order.items.filter((item) => item.note).map((item) => `${item.menuItem.name}: ${item.note}`)
+        ].filter(Boolean).join(" / ");
+        // コンプ・価格変更は売上とは別に、差し引いた金額と理由・承認者を記録する
+        const adjustments = order.items
+          .map((item) => ({ item, adjustment: adjustmentOf(item) }))
+          .filter(({ adjustment }) => adjustment)
+          .map(({ item, adjustment }) =>
+            `${item.menuItem.name} × ${item.quantity} ${adjustmentKindLabels[adjustment!.kind]}` +
+            `（${adjustmentReasonLabels[adjustment!.reason]}・承認: ${adjustment!.approvedBy}）`
+          ).join(", ");
+        
+        // 支払方法ごとの合計（分割払いは同じ方法の支払いを合算する）
+        const payments = order.payments ?? [];
+        const paidByMethod = PaymentMethod.options.map((method) =>
+          payments.filter((payment) => payment.method === method).reduce((total, payment) => total + payment.amount, 0)
+        );
         
-        // CSVエスケープ処理
-        const escapeCsvValue = (value: string) => {
-          if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value;
-        };
+        const refundRows = (order.refunds ?? []).map((refund) => {
+          const refundedItems = refund.lines.map((line) => {
+            const item = order.items.find((orderItem) => orderItem.id === line.orderItemId);
+            return `${item?.menuItem.name ?? "不明"} × ${line.quantity}`;
+          }).join(", ");
+          return [
+            escapeCsvValue(order.orderNumber),
+            escapeCsvValue(format(parseISO(refund.createdAt.toString()), "yyyy/MM/dd HH:mm:ss")),
+            escapeCsvValue(formatPrice(refund.amount)),
+            escapeCsvValue(formatPrice(refund.taxableAmount10)),
+            escapeCsvValue(formatPrice(refund.taxAmount10)),
+            escapeCsvValue(formatPrice(refund.taxableAmount8)),
+            escapeCsvValue(formatPrice(refund.taxAmount8)),
+            escapeCsvValue(`返金（${refundReasonLabels[refund.reason]}）`),
+            escapeCsvValue(refundedItems),
+            "",
+            "",
+            "",
+            "",
+            "",
+            "",
+            ...PaymentMethod.options.map(() => ""),
+            ""
+          ].join(",");
+        });
         
-        return [
+        const orderRow = [
           escapeCsvValue(order.orderNumber),
           escapeCsvValue(orderDate),
           escapeCsvValue(amount),
+          escapeCsvValue(formatPrice(order.taxableAmount10 ?? 0)),
+          escapeCsvValue(formatPrice(order.taxAmount10 ?? 0)),
+          escapeCsvValue(formatPrice(order.taxableAmount8 ?? 0)),
+          escapeCsvValue(formatPrice(order.taxAmount8 ?? 0)),
           escapeCsvValue(status),
-          escapeCsvValue(items)
+          escapeCsvValue(items),
+          escapeCsvValue(notes),
+          escapeCsvValue(retail),
+          escapeCsvValue(retailAmount),
+          escapeCsvValue(formatPrice(order.depositAmount ?? 0)),
+          escapeCsvValue(formatPrice(order.adjustmentAmount ?? 0)),
+          escapeCsvValue(adjustments),
+          ...paidByMethod.map((amount) => escapeCsvValue(formatPrice(amount))),
+          escapeCsvValue(formatPrice(paymentBalance(order.totalAmount, payments)))
         ].join(",");
+        return [orderRow, ...refundRows];
       });
       
       // ヘッダーと行を結合
@@ -340,45 +552,84 @@ export default function OrderHistory() {
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
                           {formatPrice(order.totalAmount)}
+                          {order.status !== "cancelled" && paymentBalance(order.totalAmount, order.payments ?? []) > 0 && (
+                            <div className="text-xs text-orange-600">
+                              未払い {formatPrice(paymentBalance(order.totalAmount, order.payments ?? []))}
+                            </div>
+                          )}
+                          {order.refunds?.length > 0 && (
+                            <div className="text-xs text-red-600">
+                              返金 {formatPrice(refundTotal(order.refunds))}
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
                           <StatusBadge status={order.status} />
+                          {order.cancelReason && (
+                            <div className="text-xs text-gray-500 mt-1">{cancelReasonLabels[order.cancelReason]}</div>
+                          )}
                         </td>
                         <td className="px-4 py-3">
                           <div className="space-y-1">
                             {order.items?.map((item) => (
                               <div key={item.id} className="text-sm">
                                 {item.menuItem.name} × {item.quantity}
+                                {item.options?.length > 0 && (
+                                  <span className="ml-1 text-blue-700">［{optionsLabel(item.options)}］</span>
+                                )}
+                                {item.note && <span className="ml-1 text-amber-700">（{item.note}）</span>}
                               </div>
                             ))}
+                            {order.note && (
+                              <div className="text-sm font-medium text-amber-700">メモ: {order.note}</div>
+                            )}
                           </div>
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
                           <div className="flex items-center gap-2">
-                            {order.status === "in-progress" ? (
-                              <>
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  className="flex items-center gap-1"
-                                  onClick={() => handleEditClick(order)}
-                                >
-                                  <Edit2 className="h-4 w-4" />
-                                  編集
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  className="text-red-500 hover:text-red-600 flex items-center gap-1"
-                                  onClick={() => handleDeleteClick(order)}
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                  削除
-                                </Button>
-                              </>
-                            ) : (
-                              <span className="text-gray-400">編集不可</span>
+                            {isEditableStatus(order.status) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="flex items-center gap-1"
+                                onClick={() => handleEditClick(order)}
+                              >
+                                <Edit2 className="h-4 w-4" />
+                                編集
+                              </Button>
+                            )}
+                            {/* 支払いのある注文は取り消さずに返金で対応する */}
+                            {isCancellable(order.status) && !order.refunds?.length && !order.payments?.length && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-500 hover:text-red-600 flex items-center gap-1"
+                                onClick={() => handleCancelClick(order)}
+                              >
+                                <Ban className="h-4 w-4" />
+                                取消
+                              </Button>
+                            )}
+                            {acceptsRefund(order.status, order.payments ?? []) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="flex items-center gap-1"
+                                onClick={() => handleRefundClick(order)}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                                返金
+                              </Button>
                             )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="flex items-center gap-1"
+                              onClick={() => setReceiptOrder(order)}
+                            >
+                              <Printer className="h-4 w-4" />
+                              レシート
+                            </Button>
                           </div>
                         </td>
                       </tr>
@@ -403,10 +654,15 @@ export default function OrderHistory() {
           setEditedItems([]);
         }
       }}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>注文内容の編集</DialogTitle>
           </DialogHeader>
+          {editingOrder?.payments?.length ? (
+            <p className="text-sm text-amber-700">
+              会計済みの注文は金額が変わる変更（商品・数量・オプション）はできません。メモのみ変更できます。
+            </p>
+          ) : null}
           <div className="space-y-4 py-4">
             {editedItems.map((item, index) => (
               <div key={index} className="flex items-center justify-between gap-4">
@@ -419,13 +675,31 @@ export default function OrderHistory() {
                       <SelectValue placeholder="メニューを選択" />
                     </SelectTrigger>
                     <SelectContent>
-                      {menuItems?.map((menuItem) => (
+                      {menuItems?.filter((menuItem) => !isCupDepositItem(menuItem)).map((menuItem) => (
                         <SelectItem key={menuItem.id} value={menuItem.id.toString()}>
                           {menuItem.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {item.options.length > 0 && (
+                    <div className="text-xs text-blue-700 mt-1">{optionsLabel(item.options)}</div>
+                  )}
+                  {item.adjustment && (
+                    <div className="text-xs text-purple-700 mt-1">
+                      {adjustmentKindLabels[item.adjustment.kind]}
+                      {item.adjustment.kind === "override" && ` ${formatPrice(item.adjustment.amount ?? 0)}`}
+                      （{adjustmentReasonLabels[item.adjustment.reason]}・承認: {item.adjustment.approvedBy}）
+                    </div>
+                  )}
+                  <Input
+                    placeholder="この明細へのメモ"
+                    value={item.note ?? ""}
+                    onChange={(e) => handleItemNoteChange(index, e.target.value)}
+                    className="mt-1 h-8 text-sm"
+                    maxLength={200}
+                    disabled={isSaving}
+                  />
                 </div>
                 <div className="flex items-center gap-2">
                   <Button
@@ -473,6 +747,17 @@ export default function OrderHistory() {
               <Plus className="h-4 w-4 mr-2" />
               メニューを追加
             </Button>
+            <div className="space-y-1">
+              <Label htmlFor="order-note">注文メモ</Label>
+              <Input
+                id="order-note"
+                placeholder="持ち帰り・名前など"
+                value={editedNote}
+                onChange={(e) => setEditedNote(e.target.value)}
+                maxLength={200}
+                disabled={isSaving}
+              />
+            </div>
             <div className="flex justify-end gap-2 mt-4">
               <Button 
                 variant="outline" 
@@ -492,40 +777,161 @@ export default function OrderHistory() {
               </Button>
             </div>
           </div>
+          {editingOrder && (
+            <div className="border-t pt-4">
+              <h3 className="font-medium mb-3">変更履歴</h3>
+              <OrderTimeline orderId={editingOrder.id} />
+            </div>
+          )}
         </DialogContent>
       </Dialog>
 
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={!!orderToDelete} onOpenChange={() => {
-        if (!isDeleting) {
-          setOrderToDelete(null);
+      {/* Refund Dialog */}
+      <Dialog open={!!refundingOrder} onOpenChange={() => {
+        if (!isRefunding) {
+          setRefundingOrder(null);
         }
       }}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>注文の削除</DialogTitle>
+            <DialogTitle>返金: {refundingOrder?.orderNumber}</DialogTitle>
             <DialogDescription>
-              この注文を削除してもよろしいですか？この操作は元に戻せません。
+              返金は元の注文を残したまま、マイナスの取引として記録されます。
             </DialogDescription>
           </DialogHeader>
+          {refundingOrder && (() => {
+            const remaining = refundableQuantities(refundingOrder);
+            return (
+              <div className="space-y-3 py-2">
+                {refundingOrder.items.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between gap-4">
+                    <div className="text-sm">
+                      <div>{item.menuItem.name} × {item.quantity}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatPrice(item.price)}・返金可能 {remaining.get(item.id) ?? 0}
+                      </div>
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining.get(item.id) ?? 0}
+                      value={refundQuantities[item.id] ?? 0}
+                      onChange={(e) => setRefundQuantities(prev => ({
+                        ...prev,
+                        [item.id]: Math.min(Math.max(0, parseInt(e.target.value) || 0), remaining.get(item.id) ?? 0)
+                      }))}
+                      className="w-20 text-center"
+                      disabled={isRefunding || !remaining.get(item.id)}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label>返金理由</Label>
+                  <Select value={refundReason} onValueChange={(value) => setRefundReason(value as RefundReason)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RefundReason.options.map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {refundReasonLabels[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>返金方法</Label>
+                  <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as PaymentMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PaymentMethod.options.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {paymentMethodLabels[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            );
+          })()}
           <DialogFooter className="flex justify-end gap-2 mt-4">
             <Button 
               variant="outline" 
-              onClick={() => setOrderToDelete(null)}
-              disabled={isDeleting}
+              onClick={() => setRefundingOrder(null)}
+              disabled={isRefunding}
             >
               キャンセル
             </Button>
+            <Button 
+              variant="outline"
+              onClick={() => handleConfirmRefund(false)}
+              disabled={isRefunding}
+            >
+              選択した明細を返金
+            </Button>
+            <Button 
+              variant="destructive"
+              onClick={() => handleConfirmRefund(true)}
+              disabled={isRefunding}
+            >
+              {isRefunding ? "返金中..." : "全額返金"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Dialog */}
+      <Dialog open={!!orderToCancel} onOpenChange={() => {
+        if (!isCancelling) {
+          setOrderToCancel(null);
+        }
+      }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>注文の取消: {orderToCancel?.orderNumber}</DialogTitle>
+            <DialogDescription>
+              注文は「取消」として履歴に残り、売上には含まれません。厨房画面にはしばらく取消の表示が出ます。
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>取消の理由</Label>
+            <Select value={cancelReason} onValueChange={(value) => setCancelReason(value as CancelReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CancelReason.options.map((reason) => (
+                  <SelectItem key={reason} value={reason}>
+                    {cancelReasonLabels[reason]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter className="flex justify-end gap-2 mt-4">
+            <Button 
+              variant="outline" 
+              onClick={() => setOrderToCancel(null)}
+              disabled={isCancelling}
+            >
+              戻る
+            </Button>
             <Button 
               variant="destructive"
-              onClick={handleConfirmDelete}
-              disabled={isDeleting}
+              onClick={handleConfirmCancel}
+              disabled={isCancelling}
             >
-              {isDeleting ? "削除中..." : "削除する"}
+              {isCancelling ? "取消中..." : "取り消す"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      <ReceiptDialog order={receiptOrder} onClose={() => setReceiptOrder(null)} reprint />
     </>
   );
 }
@@ -1,32 +1,246 @@
-import { useOrderStore } from "@/hooks/use-order-store";
+import { useOrderStore, type CartItem } from "@/hooks/use-order-store";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trash2, RefreshCw, SendIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, RefreshCw, SendIcon, Ticket, X, Gift, ScanBarcode, StickyNote } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
+import type { PriceQuote } from "@shared/pricing";
+import { STORE_INFO } from "@shared/storeInfo";
+import {
+  AdjustmentKind,
+  AdjustmentReason,
+  PaymentMethod,
+  lineAdjustmentSchema,
+  type OrderWithItems,
+  type Payment,
+} from "@shared/schema";
+import { adjustmentKindLabels, adjustmentReasonLabels } from "@shared/adjustment";
+import { isCupDepositItem } from "@shared/deposit";
+import { optionsLabel, toOptionSelections } from "@shared/menuOption";
+import { QUICK_TENDER_AMOUNTS, TERMINAL_PAYMENT_METHODS, paymentBalance, paymentMethodLabels } from "@shared/payment";
+import { apiRequest } from "@/lib/queryClient";
+import { getAdminToken, setAdminToken } from "@/lib/adminToken";
+import ReceiptDialog from "@/components/ReceiptDialog";
 
 export default function OrderSummary() {
   const {
     cartItems,
     removeItemFromCart,
-    updateItemQuantity,
+    adjustCartItem,
+    removeAdjustment,
+    setCartItemNote,
+    orderNote,
+    setOrderNote,
     clearCart,
     calculateSubtotal,
-    calculateTax,
+    calculateTaxBreakdown,
     calculateTotal,
+    calculateQuote,
+    appliedCoupon,
+    applyCoupon,
+    removeCoupon,
+    appliedTicket,
+    removeTicket,
     createOrder,
+    recordPayment,
   } = useOrderStore();
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [couponInput, setCouponInput] = useState("");
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  
+  // コンプ・価格変更の入力（金額は円で入力する）
+  const [adjustingItem, setAdjustingItem] = useState<CartItem | null>(null);
+  const [adjustmentKind, setAdjustmentKind] = useState<AdjustmentKind>("comp");
+  const [adjustmentReason, setAdjustmentReason] = useState<AdjustmentReason>("staff");
+  const [adjustmentQuantity, setAdjustmentQuantity] = useState(1);
+  const [overrideYen, setOverrideYen] = useState("");
+  const [approvedBy, setApprovedBy] = useState("");
+  // コンプ・価格変更は管理者トークンで承認する（注文の送信時にサーバーで確かめる）
+  const [adjustmentAdminToken, setAdjustmentAdminToken] = useState("");
+  
+  // 明細ごとのメモの入力（一部の数量だけに付けることもできる）
+  const [notingItem, setNotingItem] = useState<CartItem | null>(null);
+  const [noteText, setNoteText] = useState("");
+  const [noteQuantity, setNoteQuantity] = useState(1);
+  
+  // 注文確定後の会計（支払額・お預かり金額は円で入力する）
+  // 現金とQR決済のように複数の支払方法に分けて払える
+  const [payingOrder, setPayingOrder] = useState<OrderWithItems | null>(null);
+  const [recordedPayments, setRecordedPayments] = useState<Payment[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [paymentYen, setPaymentYen] = useState("");
+  const [tenderedYen, setTenderedYen] = useState("");
+  const [isPaying, setIsPaying] = useState(false);
+  // 「後で会計」で未払いのまま閉じる前の確認
+  const [isConfirmingPayLater, setIsConfirmingPayLater] = useState(false);
+  
+  // 会計が終わった注文のレシート・領収書
+  const [receiptOrder, setReceiptOrder] = useState<OrderWithItems | null>(null);
+  
+  // 料金内訳はサーバーで計算する。応答までは手元の計算結果を表示する
+  const quoteItems = cartItems.map((item) => ({
+    menuItemId: item.menuItem.id,
+    quantity: item.quantity,
+    options: toOptionSelections(item.options),
+    adjustment: item.adjustment,
+  }));
+  const couponCode = appliedCoupon?.code;
+  const ticketCode = appliedTicket?.code;
+  const { data: quote } = useQuery<PriceQuote>({
+    queryKey: ["/api/pricing/quote", quoteItems, couponCode, ticketCode],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/pricing/quote", { items: quoteItems, couponCode, ticketCode });
+      return response.json();
+    },
+    enabled: cartItems.length > 0,
+    placeholderData: calculateQuote,
+    // 時間帯限定の料金の切り替わりを反映する
+    refetchInterval: 60000,
+  });
+  const pricingRule = (quote ?? calculateQuote()).pricingRule;
   
   // Format currency
   const formatCurrency = (amount: number) => {
     return `¥${(amount / 100).toLocaleString()}`;
   };
   
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) return;
+    
+    setIsApplyingCoupon(true);
+    try {
+      const coupon = await applyCoupon(couponInput);
+      setCouponInput("");
+      toast({
+        title: "クーポンを適用しました",
+        description: coupon.code,
+      });
+    } catch (error) {
+      toast({
+        title: "クーポンを適用できません",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+  
+  const openAdjustment = (item: CartItem) => {
+    setAdjustingItem(item);
+    setAdjustmentKind("comp");
+    setAdjustmentReason("staff");
+    setAdjustmentQuantity(item.quantity);
+    setOverrideYen("");
+    setApprovedBy("");
+    setAdjustmentAdminToken(getAdminToken());
+  };
+  
+  const handleApplyAdjustment = () => {
+    if (!adjustingItem) return;
+    
+    const parsed = lineAdjustmentSchema.safeParse({
+      kind: adjustmentKind,
+      amount: adjustmentKind === "override" && overrideYen !== "" ? Math.round(Number(overrideYen) * 100) : undefined,
+      reason: adjustmentReason,
+      approvedBy,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "入力内容を確認してください",
+        description: adjustmentKind === "override" ? "変更後の金額と承認者を入力してください。" : "承認者を入力してください。",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!adjustmentAdminToken) {
+      toast({
+        title: "管理者トークンを入力してください",
+        description: "コンプ・価格変更には管理者の承認が必要です。",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setAdminToken(adjustmentAdminToken);
+    adjustCartItem(adjustingItem.key, parsed.data, adjustmentQuantity);
+    setAdjustingItem(null);
+  };
+  
+  const openNote = (item: CartItem) => {
+    setNotingItem(item);
+    setNoteText(item.note ?? "");
+    setNoteQuantity(item.quantity);
+  };
+  
+  const handleApplyNote = () => {
+    if (!notingItem) return;
+    setCartItemNote(notingItem.key, noteText, noteQuantity);
+    setNotingItem(null);
+  };
+  
+  const balance = paymentBalance(payingOrder?.totalAmount ?? 0, recordedPayments);
+  const amountDue = paymentYen ? Math.round(Number(paymentYen) * 100) : balance;
+  const tenderedAmount = paymentMethod === "cash" ? Math.round(Number(tenderedYen || 0) * 100) : amountDue;
+  const changeAmount = tenderedAmount - amountDue;
+  const isPartiallyPaid = recordedPayments.length > 0 && balance > 0;
+  
+  // 支払い前に閉じる場合は未払いのまま残すことを確認してから閉じる
+  const handleRequestPayLater = () => {
+    if (isPaying || isPartiallyPaid) return;
+    setIsConfirmingPayLater(true);
+  };
+  
+  const handlePayment = async () => {
+    if (!payingOrder || isPaying) return;
+    
+    setIsPaying(true);
+    try {
+      const payment = await recordPayment(payingOrder.id, {
+        method: paymentMethod,
+        amount: amountDue > 0 ? amountDue : undefined,
+        tenderedAmount: paymentMethod === "cash" ? tenderedAmount : undefined,
+      });
+      const payments = [...recordedPayments, payment];
+      const remaining = paymentBalance(payingOrder.totalAmount, payments);
+      const change = payment.changeAmount > 0 ? `お釣り: ${formatCurrency(payment.changeAmount)}` : undefined;
+      
+      if (remaining > 0) {
+        // 残額を別の支払方法で受け取る
+        toast({
+          title: `${paymentMethodLabels[payment.method as PaymentMethod]} ${formatCurrency(payment.amount)} を受け取りました`,
+          description: [change, `残り: ${formatCurrency(remaining)}`].filter(Boolean).join(" / "),
+        });
+        setRecordedPayments(payments);
+        setPaymentYen("");
+        setTenderedYen("");
+        return;
+      }
+      toast({
+        title: "会計が完了しました",
+        description: change ?? `${paymentMethodLabels[payment.method as PaymentMethod]}: ${formatCurrency(payment.amount)}`,
+      });
+      setPayingOrder(null);
+      setReceiptOrder({ ...payingOrder, payments });
+    } catch (error) {
+      toast({
+        title: "会計に失敗しました",
+        description: error instanceof Error ? error.message : "もう一度お試しください。",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPaying(false);
+    }
+  };
+  
   const handleCreateOrder = async () => {
     if (cartItems.length === 0) {
       toast({
@@ -49,11 +263,52 @@ export default function OrderSummary() {
         
         // Refresh orders data
         queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+        
+        // 続けて会計を行う
+        setPayingOrder(order);
+        setRecordedPayments(order.payments ?? []);
+        setPaymentMethod("cash");
+        setPaymentYen("");
+        setTenderedYen("");
+        setIsConfirmingPayLater(false);
       }
     } catch (error) {
+      // コンプ・価格変更の管理者トークンが正しくない場合は 403 が返る
+      if (error instanceof Error && error.message.startsWith("403")) {
+        toast({
+          title: "コンプ・価格変更を承認できません",
+          description: "管理者トークンが正しくありません。調整をやり直してください。",
+          variant: "destructive",
+        });
+        return;
+      }
+      // 注文までの間にチケットが使い切られた・期限を過ぎた場合は 422 が返る
+      if (error instanceof Error && error.message.startsWith("422") && error.message.includes("Ticket")) {
+        removeTicket();
+        toast({
+          title: "前売りチケットを使えません",
+          description: "チケットを外しました。金額を確認してから注文し直してください。",
+          variant: "destructive",
+        });
+        return;
+      }
+      // 注文までの間にクーポンが利用上限・期限に達した場合は 422 が返る
+      if (error instanceof Error && error.message.startsWith("422")) {
+        removeCoupon();
+        toast({
+          title: "クーポンを適用できません",
+          description: "クーポンを外しました。金額を確認してから注文し直してください。",
+          variant: "destructive",
+        });
+        return;
+      }
+      // サーバーで再計算した金額と一致しない場合は 409 が返る
+      const isTotalMismatch = error instanceof Error && error.message.startsWith("409");
       toast({
-        title: "エラーが発生しました",
-        description: "注文の確定に失敗しました。もう一度お試しください。",
+        title: isTotalMismatch ? "金額が一致しません" : "エラーが発生しました",
+        description: isTotalMismatch
+          ? "料金設定が更新された可能性があります。画面を再読み込みしてから注文し直してください。"
+          : "注文の確定に失敗しました。もう一度お試しください。",
         variant: "destructive",
       });
     } finally {
@@ -74,40 +329,233 @@ export default function OrderSummary() {
           ) : (
             cartItems.map((item) => (
               <div
-                key={item.menuItem.id}
+                key={item.key}
                 className="flex justify-between items-center p-2 hover:bg-gray-50 rounded-lg"
               >
                 <div>
                   <div className="font-medium">{item.menuItem.name}</div>
+                  {item.options && item.options.length > 0 && (
+                    <div className="text-xs text-blue-700">{optionsLabel(item.options)}</div>
+                  )}
                   <div className="text-gray-500 text-sm">
-                    {item.quantity}杯
+                    {item.quantity}{item.menuItem.productType === "drink" ? "杯" : "個"}
                   </div>
+                  {item.adjustment && (
+                    <div className="flex items-center text-xs text-purple-700">
+                      {adjustmentKindLabels[item.adjustment.kind]}
+                      {item.adjustment.kind === "override" && ` ${formatCurrency(item.adjustment.amount ?? 0)}`}
+                      （{adjustmentReasonLabels[item.adjustment.reason]}・承認: {item.adjustment.approvedBy}）
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5 text-gray-500 hover:text-red-500"
+                        onClick={() => removeAdjustment(item.key)}
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                  {item.note && (
+                    <div className="flex items-center text-xs font-medium text-amber-700">
+                      {item.note}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5 text-gray-500 hover:text-red-500"
+                        onClick={() => setCartItemNote(item.key, "", item.quantity)}
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
-                <div className="flex items-center">
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="ml-2 text-gray-500 hover:text-red-500"
-                    onClick={() => removeItemFromCart(item.menuItem.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                {/* リユースカップのデポジットはドリンクの杯数に合わせて自動で増減する */}
+                {isCupDepositItem(item.menuItem) ? (
+                  <div className="text-xs text-gray-500">自動</div>
+                ) : (
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-gray-500 hover:text-amber-600"
+                      onClick={() => openNote(item)}
+                      disabled={isSubmitting}
+                    >
+                      <StickyNote className="h-4 w-4" />
+                    </Button>
+                    {!item.adjustment && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-gray-500 hover:text-purple-600"
+                        onClick={() => openAdjustment(item)}
+                        disabled={isSubmitting}
+                      >
+                        <Gift className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-2 text-gray-500 hover:text-red-500"
+                      onClick={() => removeItemFromCart(item.key)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
             ))
           )}
         </div>
         
+        {/* 注文全体への指示。厨房のカードに目立つように表示される */}
+        <div className="mb-4">
+          <Input
+            placeholder="注文メモ（持ち帰り・名前: 田中 など）"
+            value={orderNote}
+            onChange={(e) => setOrderNote(e.target.value)}
+            maxLength={200}
+            disabled={isSubmitting}
+          />
+        </div>
+        
+        <div className="mb-4">
+          {appliedCoupon ? (
+            <div className="flex justify-between items-center p-2 bg-orange-50 rounded-lg text-sm">
+              <span className="flex items-center">
+                <Ticket className="mr-1 h-4 w-4" />
+                {appliedCoupon.code}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-gray-500 hover:text-red-500"
+                onClick={removeCoupon}
+                disabled={isSubmitting}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                placeholder="クーポンコード"
+                value={couponInput}
+                onChange={(e) => setCouponInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleApplyCoupon()}
+                disabled={isApplyingCoupon || isSubmitting}
+              />
+              <Button
+                variant="outline"
+                onClick={handleApplyCoupon}
+                disabled={!couponInput.trim() || isApplyingCoupon || isSubmitting}
+              >
+                適用
+              </Button>
+            </div>
+          )}
+        </div>
+        
+        {/* 前売りチケットはヘッダーの「チケット読取」から適用する */}
+        {appliedTicket && (
+          <div className="mb-4 flex justify-between items-center p-2 bg-green-50 rounded-lg text-sm">
+            <span className="flex items-center">
+              <ScanBarcode className="mr-1 h-4 w-4" />
+              前売りチケット {appliedTicket.code}（残り{appliedTicket.remainingDrinks}杯）
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-gray-500 hover:text-red-500"
+              onClick={removeTicket}
+              disabled={isSubmitting}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        
         <div className="border-t pt-4">
+          {quote && (quote.totalDrinks > 0 || quote.productLines.length > 0 || quote.adjustments.length > 0) && (
+            <div className="space-y-1 text-sm text-gray-600 mb-2">
+              {quote.setCount > 0 && (
+                <div className="flex justify-between">
+                  <span>{quote.setSize}杯セット × {quote.setCount}</span>
+                  <span>{formatCurrency(quote.setPrice * quote.setCount)}</span>
+                </div>
+              )}
+              {quote.remainder > 0 && (
+                <div className="flex justify-between">
+                  <span>{quote.remainder}杯</span>
+                  <span>{formatCurrency(quote.remainderPrice)}</span>
+                </div>
+              )}
+              {quote.discounts.map((discount) => (
+                <div key={discount.category} className="flex justify-between text-red-600">
+                  <span>
+                    {discount.category}割引 {formatCurrency(discount.unitDiscount)} × {discount.quantity}
+                  </span>
+                  <span>-{formatCurrency(discount.amount)}</span>
+                </div>
+              ))}
+              {quote.productLines.map((line) => (
+                <div key={line.name} className="flex justify-between">
+                  <span>
+                    {line.name}{line.productType === "deposit" && "（デポジット）"} {formatCurrency(line.unitPrice)} × {line.quantity}
+                  </span>
+                  <span>{formatCurrency(line.amount)}</span>
+                </div>
+              ))}
+              {quote.optionLines.map((line, index) => (
+                <div key={index} className="flex justify-between">
+                  <span>
+                    {line.name} {formatCurrency(line.unitPrice)} × {line.quantity}
+                  </span>
+                  <span>{formatCurrency(line.amount)}</span>
+                </div>
+              ))}
+              {quote.adjustments.map((line, index) => (
+                <div key={index} className="flex justify-between text-purple-700">
+                  <span>
+                    {line.name} × {line.quantity} {adjustmentKindLabels[line.kind]}（{adjustmentReasonLabels[line.reason]}）
+                    <span className="ml-1 line-through text-gray-400">{formatCurrency(line.originalAmount)}</span>
+                  </span>
+                  <span>{formatCurrency(line.amount)}</span>
+                </div>
+              ))}
+              {quote.ticketDrinks > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>前売りチケット {quote.ticketDrinks}杯（支払い済み）</span>
+                  <span>-{formatCurrency(quote.ticketAmount)}</span>
+                </div>
+              )}
+              {quote.coupon && (
+                <div className="flex justify-between text-red-600">
+                  <span>クーポン {quote.coupon.code}</span>
+                  <span>-{formatCurrency(quote.couponDiscount)}</span>
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex justify-between font-bold text-lg">
             <span>合計金額</span>
-            <span>{formatCurrency(calculateTotal())}</span>
-          </div>
-          <div className="text-xs text-gray-500 mt-1">
-            <span>※ 料金体系: 1杯700円、2杯1200円、3杯1500円</span>
+            <span>{formatCurrency(quote?.total ?? calculateTotal())}</span>
           </div>
-          <div className="text-xs text-gray-500">
-            <span>※ ソフトドリンクは1杯につき200円引き</span>
+          <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+            {calculateTaxBreakdown()
+              .filter((tax) => tax.taxableAmount > 0)
+              .map((tax) => (
+                <div key={tax.rate} className="flex justify-between">
+                  <span>
+                    {tax.rate}%対象{tax.rate === 8 ? "（軽減税率）" : ""} {formatCurrency(tax.taxableAmount)}
+                  </span>
+                  <span>内消費税 {formatCurrency(tax.taxAmount)}</span>
+                </div>
+              ))}
+            <div>登録番号: {STORE_INFO.invoiceRegistrationNumber}</div>
           </div>
         </div>
         
@@ -130,7 +578,251 @@ export default function OrderSummary() {
             注文を確定する
           </Button>
         </div>
+        
+        <div className={`mt-4 text-xs text-center ${pricingRule.window ? "text-orange-600 font-medium" : "text-gray-500"}`}>
+          適用中の料金: {pricingRule.name}
+          {pricingRule.window && `（${pricingRule.window.start}〜${pricingRule.window.end}）`}
+        </div>
       </CardContent>
+      
+      <Dialog open={!!adjustingItem} onOpenChange={(open) => !open && setAdjustingItem(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>コンプ・価格変更: {adjustingItem?.menuItem.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>種類</Label>
+                <Select value={adjustmentKind} onValueChange={(value) => setAdjustmentKind(value as AdjustmentKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AdjustmentKind.options.map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {adjustmentKindLabels[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>数量</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={adjustingItem?.quantity}
+                  value={adjustmentQuantity}
+                  onChange={(e) => setAdjustmentQuantity(parseInt(e.target.value) || 1)}
+                />
+              </div>
+            </div>
+            {adjustmentKind === "override" && (
+              <div className="space-y-1">
+                <Label>変更後の金額（{adjustmentQuantity}点の合計・円）</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={overrideYen}
+                  onChange={(e) => setOverrideYen(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>理由</Label>
+                <Select value={adjustmentReason} onValueChange={(value) => setAdjustmentReason(value as AdjustmentReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AdjustmentReason.options.map((reason) => (
+                      <SelectItem key={reason} value={reason}>
+                        {adjustmentReasonLabels[reason]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>承認者</Label>
+                <Input value={approvedBy} onChange={(e) => setApprovedBy(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>管理者トークン</Label>
+                <Input
+                  type="password"
+                  value={adjustmentAdminToken}
+                  onChange={(e) => setAdjustmentAdminToken(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjustingItem(null)}>
+              キャンセル
+            </Button>
+            <Button onClick={handleApplyAdjustment}>適用</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      <Dialog open={!!notingItem} onOpenChange={(open) => !open && setNotingItem(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>メモ: {notingItem?.menuItem.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label>メモ</Label>
+              <Input
+                placeholder="氷少なめ・ミルク変更 など"
+                value={noteText}
+                onChange={(e) => setNoteText(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleApplyNote()}
+                maxLength={200}
+                autoFocus
+              />
+            </div>
+            {(notingItem?.quantity ?? 0) > 1 && (
+              <div className="space-y-1">
+                <Label>数量</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={notingItem?.quantity}
+                  value={noteQuantity}
+                  onChange={(e) => setNoteQuantity(parseInt(e.target.value) || 1)}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNotingItem(null)}>
+              キャンセル
+            </Button>
+            <Button onClick={handleApplyNote}>適用</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* 一部を支払った後は残額を受け取るまで閉じられない。支払い前は確認してから閉じる */}
+      <Dialog open={!!payingOrder} onOpenChange={(open) => !open && handleRequestPayLater()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>会計: {payingOrder?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex justify-between font-bold text-lg">
+              <span>お会計</span>
+              <span>{formatCurrency(payingOrder?.totalAmount ?? 0)}</span>
+            </div>
+            {recordedPayments.length > 0 && (
+              <div className="space-y-1 text-sm text-gray-600">
+                {recordedPayments.map((payment) => (
+                  <div key={payment.id} className="flex justify-between">
+                    <span>{paymentMethodLabels[payment.method as PaymentMethod]}</span>
+                    <span>{formatCurrency(payment.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-medium text-orange-600">
+                  <span>残額</span>
+                  <span>{formatCurrency(balance)}</span>
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-4 gap-2">
+              {PaymentMethod.options.map((method) => (
+                <Button
+                  key={method}
+                  variant={paymentMethod === method ? "default" : "outline"}
+                  onClick={() => setPaymentMethod(method)}
+                  disabled={isPaying}
+                >
+                  {paymentMethodLabels[method]}
+                </Button>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label>{paymentMethodLabels[paymentMethod]}で支払う金額（円）</Label>
+              <Input
+                type="number"
+                min="1"
+                max={balance / 100}
+                placeholder={String(balance / 100)}
+                value={paymentYen}
+                onChange={(e) => setPaymentYen(e.target.value)}
+                disabled={isPaying}
+              />
+            </div>
+            {paymentMethod === "cash" && (
+              <div className="space-y-2">
+                <Label>お預かり（円）</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={tenderedYen}
+                  onChange={(e) => setTenderedYen(e.target.value)}
+                  disabled={isPaying}
+                />
+                <div className="grid grid-cols-4 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setTenderedYen(String(amountDue / 100))} disabled={isPaying}>
+                    ちょうど
+                  </Button>
+                  {QUICK_TENDER_AMOUNTS.map((amount) => (
+                    <Button
+                      key={amount}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setTenderedYen(String(amount / 100))}
+                      disabled={isPaying}
+                    >
+                      {formatCurrency(amount)}
+                    </Button>
+                  ))}
+                </div>
+                <div className={`flex justify-between text-lg ${changeAmount < 0 ? "text-red-600" : ""}`}>
+                  <span>{changeAmount < 0 ? "不足" : "お釣り"}</span>
+                  <span>{formatCurrency(Math.abs(changeAmount))}</span>
+                </div>
+              </div>
+            )}
+          </div>
+          {isConfirmingPayLater ? (
+            <>
+              <p className="text-sm text-orange-600">
+                {formatCurrency(balance)} が未払いのまま残ります（注文履歴に「未払い」と表示されます）。
+              </p>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsConfirmingPayLater(false)}>
+                  会計に戻る
+                </Button>
+                <Button variant="destructive" onClick={() => setPayingOrder(null)}>
+                  未払いのまま閉じる
+                </Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <DialogFooter>
+              <Button variant="outline" onClick={handleRequestPayLater} disabled={isPaying || isPartiallyPaid}>
+                後で会計
+              </Button>
+              <Button
+                onClick={handlePayment}
+                disabled={isPaying || changeAmount < 0 || amountDue > balance || (amountDue <= 0 && balance > 0)}
+              >
+                {isPaying
+                  ? TERMINAL_PAYMENT_METHODS.includes(paymentMethod) ? "端末で決済中..." : "処理中..."
+                  : amountDue < balance ? "一部を支払う" : "会計する"}
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      <ReceiptDialog order={receiptOrder} onClose={() => setReceiptOrder(null)} />
+
     </Card>
   );
 }
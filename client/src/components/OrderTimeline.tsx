@@ -0,0 +1,129 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CancelReason, OrderEventType, OrderStatus, type OrderEvent } from "@shared/schema";
+import { orderEventTypeLabels, type OrderSnapshot } from "@shared/orderEvent";
+import { cancelReasonLabels, orderStatusLabels } from "@shared/orderStatus";
+import { formatYen } from "@/lib/print";
+import { shortDeviceId } from "@/lib/actor";
+
+interface OrderTimelineProps {
+  orderId: number;
+}
+
+function statusLabel(value: unknown): string {
+  const status = OrderStatus.safeParse(value);
+  return status.success ? orderStatusLabels[status.data] : String(value);
+}
+
+function itemsText(snapshot: OrderSnapshot): string {
+  return (
+    snapshot.items
+      .map((item) => `${item.name}${item.options ? `［${item.options}］` : ""} × ${item.quantity}${item.note ? `（${item.note}）` : ""}`)
+      .join("、") || "明細なし"
+  );
+}
+
+function EventDetail({ event }: { event: OrderEvent }) {
+  const oldValue = event.oldValue as OrderSnapshot | null;
+  const newValue = event.newValue as OrderSnapshot | null;
+
+  switch (event.type as OrderEventType) {
+    case "created":
+      return newValue && <div>{itemsText(newValue)}（{formatYen(newValue.totalAmount)}）</div>;
+    case "status-changed":
+      return (
+        <div>
+          {statusLabel(oldValue?.status)} → {statusLabel(newValue?.status)}
+        </div>
+      );
+    case "cancelled": {
+      const reason = CancelReason.safeParse(newValue?.cancelReason);
+      return (
+        <div>
+          {statusLabel(oldValue?.status)} → {statusLabel(newValue?.status)}
+          {reason.success && `（${cancelReasonLabels[reason.data]}）`}
+        </div>
+      );
+    }
+    case "items-edited":
+      return (
+        oldValue &&
+        newValue && (
+          <div className="space-y-0.5">
+            <div className="text-gray-500 line-through">
+              {itemsText(oldValue)}（{formatYen(oldValue.totalAmount)}）
+            </div>
+            <div>
+              {itemsText(newValue)}（{formatYen(newValue.totalAmount)}）
+            </div>
+            {oldValue.orderNumber !== newValue.orderNumber && (
+              <div>
+                注文番号: {oldValue.orderNumber} → {newValue.orderNumber}
+              </div>
+            )}
+            {(oldValue.note ?? null) !== (newValue.note ?? null) && (
+              <div>
+                メモ: {oldValue.note ?? "なし"} → {newValue.note ?? "なし"}
+              </div>
+            )}
+          </div>
+        )
+      );
+    case "deleted":
+      return oldValue && <div>{itemsText(oldValue)}（{formatYen(oldValue.totalAmount)}）</div>;
+    default:
+      return null;
+  }
+}
+
+// 注文の作成・変更・削除の履歴。お客様から問い合わせがあったときに確認する
+export default function OrderTimeline({ orderId }: OrderTimelineProps) {
+  const { data: events, isLoading, isError } = useQuery<OrderEvent[]>({
+    queryKey: [`/api/orders/${orderId}/history`],
+    // 開くたびに最新の履歴を取得する
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-sm text-red-600">履歴を取得できませんでした</p>;
+  }
+
+  if (!events || events.length === 0) {
+    return <p className="text-sm text-gray-500">履歴はありません</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4 text-sm">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <div className="flex flex-wrap items-baseline gap-x-2">
+            <span className="font-medium">
+              {orderEventTypeLabels[event.type as OrderEventType] ?? event.type}
+            </span>
+            <span className="text-xs text-gray-500">
+              {format(parseISO(event.createdAt.toString()), "yyyy/MM/dd HH:mm:ss")}
+            </span>
+            <span className="text-xs text-gray-500">
+              {event.staffName ?? "担当者未設定"}
+              {event.deviceId && `（端末 ${shortDeviceId(event.deviceId)}）`}
+            </span>
+          </div>
+          <div className="text-gray-700">
+            <EventDetail event={event} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { printHtml } from "@/lib/print";
+import {
+  DEFAULT_RECEIPT_PROVISO,
+  receiptKindLabels,
+  renderReceipt,
+  type ReceiptKind,
+  type ReceiptOrder,
+} from "@/lib/receipt";
+
+interface ReceiptDialogProps {
+  order: ReceiptOrder | null;
+  onClose: () => void;
+  // 注文履歴からの印刷は再発行として扱う
+  reprint?: boolean;
+}
+
+export default function ReceiptDialog({ order, onClose, reprint = false }: ReceiptDialogProps) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<ReceiptKind>("receipt");
+  const [addressee, setAddressee] = useState("");
+  const [proviso, setProviso] = useState(DEFAULT_RECEIPT_PROVISO);
+  // 再発行と記載する種類。一度印刷した種類は以降すべて再発行になる
+  const [reprintKinds, setReprintKinds] = useState<ReceiptKind[]>([]);
+  const isReprint = reprintKinds.includes(kind);
+
+  const setReprint = (target: ReceiptKind, value: boolean) => {
+    setReprintKinds((prev) => (value ? Array.from(new Set([...prev, target])) : prev.filter((k) => k !== target)));
+  };
+
+  // 別の注文を開いたら入力を初期化する
+  useEffect(() => {
+    setKind("receipt");
+    setAddressee("");
+    setProviso(DEFAULT_RECEIPT_PROVISO);
+    setReprintKinds(reprint ? (Object.keys(receiptKindLabels) as ReceiptKind[]) : []);
+  }, [order, reprint]);
+
+  const handlePrint = () => {
+    if (!order) return;
+
+    try {
+      printHtml(
+        `${receiptKindLabels[kind]} ${order.orderNumber}`,
+        renderReceipt(order, { kind, addressee, proviso, reprint: isReprint })
+      );
+      setReprint(kind, true);
+    } catch (error) {
+      toast({
+        title: "印刷できません",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>レシート・領収書: {order?.orderNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(receiptKindLabels) as ReceiptKind[]).map((option) => (
+              <Button key={option} variant={kind === option ? "default" : "outline"} onClick={() => setKind(option)}>
+                {receiptKindLabels[option]}
+              </Button>
+            ))}
+          </div>
+          {kind === "formal-receipt" && (
+            <>
+              <div className="space-y-1">
+                <Label>宛名</Label>
+                <Input value={addressee} placeholder="株式会社〇〇" onChange={(e) => setAddressee(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>但し書き</Label>
+                <Input value={proviso} onChange={(e) => setProviso(e.target.value)} />
+              </div>
+            </>
+          )}
+          <div className="flex items-center gap-2">
+            <Checkbox id="receipt-reprint" checked={isReprint} onCheckedChange={(checked) => setReprint(kind, checked === true)} />
+            <Label htmlFor="receipt-reprint">再発行と記載する</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            閉じる
+          </Button>
+          <Button onClick={handlePrint}>
+            <Printer className="mr-1 h-4 w-4" />
+            印刷
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
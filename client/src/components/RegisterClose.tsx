@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Calculator, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { printHtml } from "@/lib/print";
+import { renderRegisterCloseReport } from "@/lib/registerCloseReport";
+import type { PaymentMethod, RegisterClose as RegisterCloseRecord } from "@shared/schema";
+import { DENOMINATIONS, countCash, type RegisterSummary } from "@shared/registerClose";
+import { paymentMethodLabels } from "@shared/payment";
+
+export default function RegisterClose() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [openingFloatYen, setOpeningFloatYen] = useState("");
+  const [denominationCounts, setDenominationCounts] = useState<Record<string, number>>({});
+  const [note, setNote] = useState("");
+  const [isClosing, setIsClosing] = useState(false);
+
+  const { data: registerCloses } = useQuery<RegisterCloseRecord[]>({
+    queryKey: ["/api/register-closes"],
+  });
+
+  // 前回の締め以降の売上（締めの画面を開いている間だけ取得する）
+  const { data: summary } = useQuery<RegisterSummary>({
+    queryKey: ["/api/register-closes/current"],
+    enabled: isOpen,
+  });
+
+  // Format price from cents to display format
+  const formatPrice = (priceInCents: number) => {
+    return `${priceInCents < 0 ? "-" : ""}¥${(Math.abs(priceInCents) / 100).toLocaleString()}`;
+  };
+
+  const openingFloat = Math.round(Number(openingFloatYen || 0) * 100);
+  const countedCash = countCash(denominationCounts);
+  const expectedCash =
+    openingFloat + (summary?.cashSales ?? 0) + (summary?.cashRefundTotal ?? 0) + (summary?.depositRefundTotal ?? 0);
+  const difference = countedCash - expectedCash;
+
+  const handleOpen = () => {
+    // 釣銭準備金は前回と同じ額を初期値にする
+    const previous = registerCloses?.[0];
+    setOpeningFloatYen(previous ? String(previous.openingFloat / 100) : "");
+    setDenominationCounts({});
+    setNote("");
+    queryClient.invalidateQueries({ queryKey: ["/api/register-closes/current"] });
+    setIsOpen(true);
+  };
+
+  const handlePrint = (registerClose: RegisterCloseRecord) => {
+    try {
+      printHtml("レジ締め", renderRegisterCloseReport(registerClose));
+    } catch (error) {
+      toast({
+        title: "印刷できません",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClose = async () => {
+    if (isClosing) return;
+
+    setIsClosing(true);
+    try {
+      const response = await apiRequest("POST", "/api/register-closes", {
+        openingFloat,
+        denominationCounts,
+        note,
+      });
+      const registerClose: RegisterCloseRecord = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ["/api/register-closes"] });
+      toast({
+        title: "レジ締めが完了しました",
+        description: `過不足: ${formatPrice(registerClose.difference)}`,
+      });
+      setIsOpen(false);
+      handlePrint(registerClose);
+    } catch (error) {
+      toast({
+        title: "レジ締めに失敗しました",
+        description: "もう一度お試しください。",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">レジ締め</h2>
+          <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={handleOpen}>
+            <Calculator className="h-4 w-4" />
+            レジ締めを行う
+          </Button>
+        </div>
+
+        {registerCloses?.length ? (
+          <div className="divide-y divide-gray-200">
+            {registerCloses.slice(0, 5).map((registerClose) => (
+              <div key={registerClose.id} className="flex justify-between items-center py-2 text-sm">
+                <span>{format(new Date(registerClose.closedAt), "MM/dd HH:mm")}</span>
+                <span>売上 {formatPrice(registerClose.salesTotal)}</span>
+                <span className={registerClose.difference === 0 ? "text-gray-600" : "text-red-600"}>
+                  過不足 {formatPrice(registerClose.difference)}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => handlePrint(registerClose)}>
+                  <Printer className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-gray-500 text-center py-4 text-sm">レジ締めの記録がありません</div>
+        )}
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && !isClosing && setIsOpen(false)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>レジ締め</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-2">
+            <div className="space-y-2">
+              <Label>現金の枚数</Label>
+              {DENOMINATIONS.map((denomination) => (
+                <div key={denomination.value} className="flex items-center justify-between gap-2">
+                  <span className="text-sm w-20">{denomination.label}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-24 text-right"
+                    value={denominationCounts[denomination.value] ?? ""}
+                    onChange={(e) =>
+                      setDenominationCounts((prev) => ({
+                        ...prev,
+                        [denomination.value]: Math.max(0, parseInt(e.target.value) || 0),
+                      }))
+                    }
+                    disabled={isClosing}
+                  />
+                  <span className="text-sm w-24 text-right">
+                    {formatPrice(denomination.value * (denominationCounts[denomination.value] ?? 0))}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>釣銭準備金（円）</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={openingFloatYen}
+                  onChange={(e) => setOpeningFloatYen(e.target.value)}
+                  disabled={isClosing}
+                />
+              </div>
+              <div className="space-y-1 text-sm text-gray-600">
+                <div className="flex justify-between">
+                  <span>注文数</span>
+                  <span>{summary?.orderCount ?? 0}件</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>売上</span>
+                  <span>{formatPrice(summary?.salesTotal ?? 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>返金</span>
+                  <span>{formatPrice(summary?.refundTotal ?? 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>うち現金での返金</span>
+                  <span>{formatPrice(summary?.cashRefundTotal ?? 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>デポジット預り（売上外）</span>
+                  <span>{formatPrice(summary?.depositTotal ?? 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>デポジット返却</span>
+                  <span>{formatPrice(summary?.depositRefundTotal ?? 0)}</span>
+                </div>
+                {summary &&
+                  Object.entries(summary.paymentTotals).map(([method, amount]) => (
+                    <div key={method} className="flex justify-between">
+                      <span>{paymentMethodLabels[method as PaymentMethod]}</span>
+                      <span>{formatPrice(amount)}</span>
+                    </div>
+                  ))}
+              </div>
+              <div className="space-y-1 border-t pt-2">
+                <div className="flex justify-between">
+                  <span>現金合計</span>
+                  <span>{formatPrice(countedCash)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>想定額（準備金 + 現金売上 + デポジット返却）</span>
+                  <span>{formatPrice(expectedCash)}</span>
+                </div>
+                <div className={`flex justify-between font-bold text-lg ${difference === 0 ? "" : "text-red-600"}`}>
+                  <span>{difference === 0 ? "過不足なし" : difference > 0 ? "過剰" : "不足"}</span>
+                  <span>{formatPrice(difference)}</span>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>メモ</Label>
+                <Input value={note} onChange={(e) => setNote(e.target.value)} disabled={isClosing} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isClosing}>
+              キャンセル
+            </Button>
+            <Button onClick={handleClose} disabled={isClosing || !summary}>
+              {isClosing ? "処理中..." : "締める"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { getStaffName, setStaffName } from "@/lib/actor";
+
+// この端末を使っている担当者。注文の変更履歴に記録される
+export default function StaffName() {
+  const [staffName, setCurrentStaffName] = useState(getStaffName);
+  const [draft, setDraft] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleOpen = () => {
+    setDraft(staffName);
+    setIsOpen(true);
+  };
+
+  const handleSave = () => {
+    setStaffName(draft);
+    setCurrentStaffName(getStaffName());
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="ghost" className="flex items-center text-sm sm:text-base" onClick={handleOpen}>
+        <UserRound className="mr-1 h-4 w-4" />
+        <span>{staffName || "担当者未設定"}</span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>担当者</DialogTitle>
+            <DialogDescription>この端末で行った注文の作成・変更の履歴に記録されます。</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="staff-name">名前</Label>
+            <Input
+              id="staff-name"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              placeholder="例: 山田"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              キャンセル
+            </Button>
+            <Button onClick={handleSave}>保存</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
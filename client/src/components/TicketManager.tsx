@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import QRCode from "qrcode";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Printer, TicketPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { adminHeaders, getAdminToken, setAdminToken } from "@/lib/adminToken";
+import { printHtml } from "@/lib/print";
+import { renderTickets } from "@/lib/ticketPrint";
+import type { Ticket } from "@shared/schema";
+import { PRICING_RULES } from "@shared/pricing";
+
+// 前売りチケットの発行と一覧。発行したチケットは QR コード付きで印刷する
+export default function TicketManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  // 初期値は通常の料金設定のセット（3杯 ¥1,500）
+  const [drinks, setDrinks] = useState(String(PRICING_RULES.setSize));
+  const [priceYen, setPriceYen] = useState(String(PRICING_RULES.tierPrices[PRICING_RULES.setSize - 1] / 100));
+  const [count, setCount] = useState("1");
+  const [validUntil, setValidUntil] = useState("");
+  const [adminToken, setAdminTokenInput] = useState("");
+  const [isIssuing, setIsIssuing] = useState(false);
+
+  const { data: tickets } = useQuery<Ticket[]>({
+    queryKey: ["/api/tickets"],
+  });
+
+  // Format price from cents to display format
+  const formatPrice = (priceInCents: number) => {
+    return `¥${(priceInCents / 100).toLocaleString()}`;
+  };
+
+  const handlePrint = async (ticketsToPrint: Ticket[]) => {
+    try {
+      const qrCodes: Record<string, string> = {};
+      for (const ticket of ticketsToPrint) {
+        qrCodes[ticket.code] = await QRCode.toDataURL(ticket.code, { margin: 1, width: 400 });
+      }
+      printHtml("前売りチケット", renderTickets(ticketsToPrint, qrCodes));
+    } catch (error) {
+      toast({
+        title: "印刷できません",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpen = () => {
+    setAdminTokenInput(getAdminToken());
+    setIsOpen(true);
+  };
+
+  const handleIssue = async () => {
+    if (isIssuing) return;
+
+    // チケットの発行は管理者のみ（無料のチケットも発行できるため）
+    setAdminToken(adminToken);
+    setIsIssuing(true);
+    try {
+      const response = await apiRequest("POST", "/api/tickets", {
+        drinks: parseInt(drinks),
+        price: Math.round(Number(priceYen || 0) * 100),
+        count: parseInt(count),
+        // 有効期限は指定した日の終わりまで
+        validUntil: validUntil ? new Date(`${validUntil}T23:59:59`).toISOString() : null,
+      }, adminHeaders());
+      const issued: Ticket[] = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets"] });
+      toast({
+        title: "前売りチケットを発行しました",
+        description: `${issued.length}枚`,
+      });
+      setIsOpen(false);
+      await handlePrint(issued);
+    } catch (error) {
+      toast({
+        title: "チケットの発行に失敗しました",
+        description: error instanceof Error && error.message.startsWith("403")
+          ? "管理者トークンが正しくありません。"
+          : "入力内容を確認してください。",
+        variant: "destructive",
+      });
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">前売りチケット</h2>
+          <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={handleOpen}>
+            <TicketPlus className="h-4 w-4" />
+            発行する
+          </Button>
+        </div>
+
+        {tickets?.length ? (
+          <div className="divide-y divide-gray-200">
+            {tickets.slice(0, 10).map((ticket) => (
+              <div key={ticket.id} className="flex justify-between items-center py-2 text-sm">
+                <span className="font-mono">{ticket.code}</span>
+                <span className={ticket.remainingDrinks === 0 ? "text-gray-400" : ""}>
+                  残り {ticket.remainingDrinks}/{ticket.drinks}杯
+                </span>
+                <span className="text-gray-600">
+                  {ticket.validUntil ? `〜${format(new Date(ticket.validUntil), "MM/dd")}` : "期限なし"}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => handlePrint([ticket])}>
+                  <Printer className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-gray-500 text-center py-4 text-sm">発行したチケットはありません</div>
+        )}
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && !isIssuing && setIsOpen(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>前売りチケットの発行</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1">
+              <Label>杯数</Label>
+              <Input type="number" min="1" value={drinks} onChange={(e) => setDrinks(e.target.value)} disabled={isIssuing} />
+            </div>
+            <div className="space-y-1">
+              <Label>価格（円）</Label>
+              <Input type="number" min="0" value={priceYen} onChange={(e) => setPriceYen(e.target.value)} disabled={isIssuing} />
+            </div>
+            <div className="space-y-1">
+              <Label>枚数</Label>
+              <Input type="number" min="1" max="100" value={count} onChange={(e) => setCount(e.target.value)} disabled={isIssuing} />
+            </div>
+            <div className="space-y-1">
+              <Label>有効期限（任意）</Label>
+              <Input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} disabled={isIssuing} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label>管理者トークン</Label>
+              <Input type="password" value={adminToken} onChange={(e) => setAdminTokenInput(e.target.value)} disabled={isIssuing} />
+            </div>
+          </div>
+          <div className="text-sm text-gray-600">
+            1枚あたり {formatPrice(Math.round(Number(priceYen || 0) * 100))}・ドリンク {drinks || 0}杯
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isIssuing}>
+              キャンセル
+            </Button>
+            <Button onClick={handleIssue} disabled={isIssuing || !adminToken || !(parseInt(drinks) > 0) || !(parseInt(count) > 0)}>
+              {isIssuing ? "処理中..." : "発行して印刷"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
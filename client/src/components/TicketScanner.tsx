@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useOrderStore } from "@/hooks/use-order-store";
+import { useToast } from "@/hooks/use-toast";
+
+interface TicketScannerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// 同じコードを続けて読み取った場合に再確認するまでの間隔
+const RESCAN_INTERVAL_MS = 2000;
+
+// カメラで前売りチケットのQRコードを読み取り、注文に適用する。
+// カメラが使えない場合はコードを手入力する
+export default function TicketScanner({ open, onOpenChange }: TicketScannerProps) {
+  const { applyTicket } = useOrderStore();
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  // カメラの読み取りループから最新の処理を呼ぶ
+  const handleCodeRef = useRef<(code: string) => void>(() => {});
+  const lastScanRef = useRef({ code: "", at: 0 });
+
+  const handleCode = async (code: string) => {
+    if (isApplying) return;
+
+    setIsApplying(true);
+    try {
+      const ticket = await applyTicket(code);
+      toast({
+        title: "前売りチケットを適用しました",
+        description: `${ticket.code}（残り${ticket.remainingDrinks}杯）`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "チケットを適用できません",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+  handleCodeRef.current = handleCode;
+
+  useEffect(() => {
+    if (!open) return;
+
+    let stream: MediaStream | null = null;
+    let frameId = 0;
+    let cancelled = false;
+    setCameraError(null);
+    setManualCode("");
+    lastScanRef.current = { code: "", at: 0 };
+
+    const scan = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const result = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (result?.data && (result.data !== last.code || now - last.at > RESCAN_INTERVAL_MS)) {
+            lastScanRef.current = { code: result.data, at: now };
+            handleCodeRef.current(result.data);
+          }
+        }
+      }
+      frameId = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      try {
+        // スマートフォン・タブレットでは背面カメラを使う
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frameId = requestAnimationFrame(scan);
+      } catch (error) {
+        setCameraError("カメラを起動できません。チケットのコードを入力してください。");
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  const handleManualSubmit = () => {
+    if (!manualCode.trim()) return;
+    handleCode(manualCode);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>前売りチケットの読み取り</DialogTitle>
+          <DialogDescription>チケットのQRコードをカメラに向けるか、コードを入力してください。</DialogDescription>
+        </DialogHeader>
+        {cameraError ? (
+          <div className="text-sm text-red-600 py-2">{cameraError}</div>
+        ) : (
+          <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+        )}
+        <canvas ref={canvasRef} className="hidden" />
+        <div className="flex gap-2">
+          <Input
+            placeholder="MKN-XXXX-XXXX"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleManualSubmit()}
+            disabled={isApplying}
+          />
+          <Button variant="outline" onClick={handleManualSubmit} disabled={!manualCode.trim() || isApplying}>
+            適用
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
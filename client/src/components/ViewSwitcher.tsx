@@ -1,20 +1,38 @@
+import { useState } from "react";
 import { useLocation, useRoute, Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import { ScanBarcode, ChefHat } from "lucide-react";
+import { ScanBarcode, ChefHat, Store } from "lucide-react";
+import TicketScanner from "@/components/TicketScanner";
+import StaffName from "@/components/StaffName";
 
 export default function ViewSwitcher() {
   const [, setLocation] = useLocation();
   const [isRegisterRoute] = useRoute("/");
   const [isKitchenRoute] = useRoute("/kitchen");
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
 
   return (
     <div className="flex items-center space-x-2 sm:space-x-4">
+      <StaffName />
+
+      {/* 前売りチケットのQRコードを読み取ってレジの注文に適用する */}
+      {isRegisterRoute && (
+        <Button
+          variant="outline"
+          className="flex items-center text-sm sm:text-base"
+          onClick={() => setIsScannerOpen(true)}
+        >
+          <ScanBarcode className="mr-1 h-4 w-4" />
+          <span>チケット読取</span>
+        </Button>
+      )}
+
       <Button
         variant={isRegisterRoute ? "default" : "outline"}
         className="flex items-center text-sm sm:text-base"
         onClick={() => setLocation("/")}
       >
-        <ScanBarcode className="mr-1 h-4 w-4" />
+        <Store className="mr-1 h-4 w-4" />
         <span>レジ画面</span>
       </Button>
 
@@ -26,6 +44,8 @@ export default function ViewSwitcher() {
         <ChefHat className="mr-1 h-4 w-4" />
         <span>厨房画面</span>
       </Button>
+
+      <TicketScanner open={isScannerOpen} onOpenChange={setIsScannerOpen} />
     </div>
   );
 }
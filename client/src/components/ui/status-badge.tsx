@@ -1,14 +1,18 @@
 import { cva, type VariantProps } from "class-variance-authority";
 import { cn } from "@/lib/utils";
 import { OrderStatus } from "@shared/schema";
+import { orderStatusLabels } from "@shared/orderStatus";
 
 const statusBadgeVariants = cva(
   "inline-flex items-center rounded-full px-2 py-1 text-xs font-medium",
   {
     variants: {
       variant: {
+        new: "bg-blue-100 text-blue-800 border-blue-200",
         "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
         ready: "bg-green-100 text-green-800 border-green-200",
+        "picked-up": "bg-gray-100 text-gray-700 border-gray-200",
+        cancelled: "bg-red-100 text-red-800 border-red-200",
       },
       animated: {
         true: "animate-pulse",
@@ -22,11 +26,6 @@ const statusBadgeVariants = cva(
   }
 );
 
-const statusTextMap: Record<OrderStatus, string> = {
-  "in-progress": "調理中",
-  ready: "完了",
-};
-
 export interface StatusBadgeProps
   extends React.HTMLAttributes<HTMLSpanElement>,
     VariantProps<typeof statusBadgeVariants> {
@@ -44,7 +43,7 @@ export function StatusBadge({
       className={cn(statusBadgeVariants({ variant: status, animated, className }))}
       {...props}
     >
-      {statusTextMap[status] || status}
+      {orderStatusLabels[status] || status}
     </span>
   );
 }
@@ -1,65 +1,183 @@
 import { create } from 'zustand';
-import { MenuItem, OrderWithItems, OrderItem, OrderStatus } from '@shared/schema';
+import { MenuItem, OrderWithItems, OrderItem, OrderStatus, type LineAdjustment, type OptionSelection, type Payment, type PaymentRequest, type SelectedOption, type Ticket } from '@shared/schema';
+import { calculatePrice, priceOrder, quotePrice, type PriceQuote } from '@shared/pricing';
+import { fromOrderTaxAmounts, type TaxBreakdown } from '@shared/tax';
+import {
+  chargeFailureMessages,
+  paymentRejectionMessages,
+  TERMINAL_PAYMENT_METHODS,
+  type ChargeStatus,
+  type PaymentRejection
+} from '@shared/payment';
+import { couponRejectionMessages, type CouponRejection, type CouponTerms } from '@shared/coupon';
+import { checkTicket, normalizeTicketCode, ticketRejectionMessages } from '@shared/ticket';
+import { CUP_DEPOSIT, withCupDeposit } from '@shared/deposit';
+import { MENU_ITEMS } from '@shared/menuData';
+import { optionsKey, toOptionSelections } from '@shared/menuOption';
 import { apiRequest } from '@/lib/queryClient';
+import { adminHeaders } from '@/lib/adminToken';
 import { queryClient } from '@/lib/queryClient';
 
-interface CartItem {
+export interface CartItem {
+  // 同じ商品でもオプションが違う分・コンプ・価格変更した分は別の行にするため、行ごとのキーで扱う
+  key: string;
   menuItem: MenuItem;
   quantity: number;
+  // 選んだオプション（メニューの名前・追加料金付き）
+  options?: SelectedOption[];
+  adjustment?: LineAdjustment;
+  // 「氷少なめ」など、この行だけへの指示
+  note?: string;
+}
+
+// 調整・メモを付けた行のキーを一意にするための連番
+let adjustedLineCounter = 0;
+
+// 調整・メモの無い行のキー。同じ商品・同じオプションの行は1つにまとめる
+function regularLineKey(menuItem: MenuItem, options?: SelectedOption[]): string {
+  return options?.length ? `${menuItem.id}:${optionsKey(options)}` : String(menuItem.id);
+}
+
+function isSameOptions(a?: OptionSelection[], b?: OptionSelection[]): boolean {
+  return optionsKey(a) === optionsKey(b);
+}
+
+// リユースカップのデポジットの行をドリンクの杯数に合わせる（サーバーでも同じように付け直す）
+function syncCupDeposit(cartItems: CartItem[]): CartItem[] {
+  const menuItems = queryClient.getQueryData<MenuItem[]>(['/api/menu-items']) ?? MENU_ITEMS;
+  const depositItem = menuItems.find((item) => item.id === CUP_DEPOSIT.menuItemId);
+  if (!depositItem) return cartItems;
+  return withCupDeposit(cartItems, (quantity) => ({ key: 'cup-deposit', menuItem: depositItem, quantity }));
+}
+
+// 決済端末の結果を確認する間隔と回数
+const CHARGE_POLL_INTERVAL_MS = 1000;
+const CHARGE_POLL_LIMIT = 120;
+
+async function postPayment(url: string, payment: PaymentRequest): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payment),
+    credentials: 'include',
+  });
+}
+
+// 会計済み・お預かり不足などの理由を画面に表示できるメッセージにする
+async function paymentError(response: Response): Promise<Error> {
+  const body = await response.json();
+  const reason = body.reason as PaymentRejection | undefined;
+  return new Error(reason ? paymentRejectionMessages[reason] : body.message);
+}
+
+// 決済端末で決済し、承認されたら記録された支払いを返す。端末が無い環境（501）では null
+async function chargeOnTerminal(orderId: number, payment: PaymentRequest): Promise<Payment | null> {
+  const response = await postPayment(`/api/orders/${orderId}/charges`, payment);
+  if (response.status === 501) return null;
+  if (!response.ok) throw await paymentError(response);
+  const charge: { id: string } = await response.json();
+  
+  for (let i = 0; i < CHARGE_POLL_LIMIT; i++) {
+    await new Promise((resolve) => setTimeout(resolve, CHARGE_POLL_INTERVAL_MS));
+    const pollResponse = await apiRequest('GET', `/api/orders/${orderId}/charges/${charge.id}`);
+    const result: { charge: { status: ChargeStatus }; payment: Payment | null } = await pollResponse.json();
+    if (result.payment) return result.payment;
+    if (result.charge.status !== 'pending') {
+      throw new Error(chargeFailureMessages[result.charge.status] ?? '決済に失敗しました');
+    }
+  }
+  throw new Error(chargeFailureMessages.timeout);
 }
 
 interface OrderStore {
   // Cart management for register view
   cartItems: CartItem[];
-  addItemToCart: (menuItem: MenuItem) => void;
-  removeItemFromCart: (menuItemId: number) => void;
-  updateItemQuantity: (menuItemId: number, quantity: number) => void;
+  addItemToCart: (menuItem: MenuItem, options?: SelectedOption[]) => void;
+  removeItemFromCart: (key: string) => void;
+  updateItemQuantity: (key: string, quantity: number) => void;
+  adjustCartItem: (key: string, adjustment: LineAdjustment, quantity: number) => void;
+  removeAdjustment: (key: string) => void;
+  setCartItemNote: (key: string, note: string, quantity: number) => void;
   clearCart: () => void;
+  
+  // Free-text note for the whole order ("持ち帰り", "名前: 田中")
+  orderNote: string;
+  setOrderNote: (note: string) => void;
+  
+  // Coupon applied to the cart
+  appliedCoupon: CouponTerms | null;
+  applyCoupon: (code: string) => Promise<CouponTerms>;
+  removeCoupon: () => void;
+  
+  // Prepaid ticket redeemed against the cart
+  appliedTicket: Ticket | null;
+  applyTicket: (code: string) => Promise<Ticket>;
+  removeTicket: () => void;
+  
   calculateSubtotal: () => number;
+  calculateQuote: () => PriceQuote;
   calculateTax: () => number;
+  calculateTaxBreakdown: () => TaxBreakdown[];
   calculateTotal: () => number;
   
   // Order creation
   createOrder: () => Promise<OrderWithItems | null>;
   
+  // Payment for a confirmed order
+  recordPayment: (orderId: number, payment: PaymentRequest) => Promise<Payment>;
+  
   // Order status management for kitchen view
   updateOrderStatus: (orderId: number, status: OrderStatus) => Promise<void>;
+  // 厨房カードで明細ごとに作り終えた数を記録する（すべて済むと注文は自動で完了になる）
+  updateItemProgress: (orderId: number, itemId: number, completedQuantity: number) => Promise<void>;
 
   // Order update
-  updateOrder: (orderId: number, orderNumber: string, status: OrderStatus, items: Array<{ menuItemId: number; quantity: number }>) => Promise<OrderWithItems | null>;
+  updateOrder: (
+    orderId: number,
+    status: OrderStatus,
+    items: Array<{ menuItemId: number; quantity: number; options?: OptionSelection[]; adjustment?: LineAdjustment | null; note?: string | null }>,
+    note?: string | null
+  ) => Promise<OrderWithItems | null>;
 }
 
 export const useOrderStore = create<OrderStore>((set, get) => ({
   cartItems: [],
   
-  addItemToCart: (menuItem: MenuItem) => {
+  addItemToCart: (menuItem: MenuItem, options: SelectedOption[] = []) => {
     set((state) => {
+      // 同じオプションで、調整・メモの無い行にまとめる
       const existingItemIndex = state.cartItems.findIndex(
-        (item) => item.menuItem.id === menuItem.id
+        (item) =>
+          item.menuItem.id === menuItem.id && isSameOptions(item.options, options) && !item.adjustment && !item.note
       );
       
       if (existingItemIndex >= 0) {
         // Item already exists, increase quantity
         const newCartItems = [...state.cartItems];
         newCartItems[existingItemIndex].quantity += 1;
-        return { cartItems: newCartItems };
+        return { cartItems: syncCupDeposit(newCartItems) };
       } else {
         // New item, add to cart
-        return { cartItems: [...state.cartItems, { menuItem, quantity: 1 }] };
+        return {
+          cartItems: syncCupDeposit([
+            ...state.cartItems,
+            { key: regularLineKey(menuItem, options), menuItem, quantity: 1, options }
+          ])
+        };
       }
     });
   },
   
-  removeItemFromCart: (menuItemId: number) => {
+  removeItemFromCart: (key: string) => {
     set((state) => ({
-      cartItems: state.cartItems.filter((item) => item.menuItem.id !== menuItemId)
+      cartItems: syncCupDeposit(state.cartItems.filter((item) => item.key !== key))
     }));
   },
   
-  updateItemQuantity: (menuItemId: number, quantity: number) => {
+  updateItemQuantity: (key: string, quantity: number) => {
     set((state) => {
       const newCartItems = state.cartItems.map((item) => {
-        if (item.menuItem.id === menuItemId) {
+        if (item.key === key) {
           return { ...item, quantity };
         }
         return item;
@@ -67,84 +185,213 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
       
       // Remove item if quantity is zero or less
       return {
-        cartItems: newCartItems.filter((item) => item.quantity > 0)
+        cartItems: syncCupDeposit(newCartItems.filter((item) => item.quantity > 0))
       };
     });
   },
   
-  clearCart: () => set({ cartItems: [] }),
+  adjustCartItem: (key: string, adjustment: LineAdjustment, quantity: number) => {
+    set((state) => {
+      const target = state.cartItems.find((item) => item.key === key);
+      if (!target) return {};
+      
+      // 一部の数量だけ調整する場合は、調整した分を別の行に分ける
+      const adjustedQuantity = Math.min(Math.max(1, quantity), target.quantity);
+      const adjustedLine: CartItem = {
+        key: `${target.menuItem.id}-adjusted-${++adjustedLineCounter}`,
+        menuItem: target.menuItem,
+        quantity: adjustedQuantity,
+        options: target.options,
+        adjustment,
+        note: target.note
+      };
+      const newCartItems = state.cartItems.flatMap((item) => {
+        if (item.key !== key) return [item];
+        const rest = item.quantity - adjustedQuantity;
+        return rest > 0 ? [{ ...item, quantity: rest }, adjustedLine] : [adjustedLine];
+      });
+      return { cartItems: newCartItems };
+    });
+  },
   
-  calculateSubtotal: () => {
+  removeAdjustment: (key: string) => {
+    set((state) => {
+      const target = state.cartItems.find((item) => item.key === key);
+      if (!target?.adjustment) return {};
+      
+      // 調整していない同じ商品・同じオプション・同じメモの行に戻す
+      const rest = state.cartItems.filter((item) => item.key !== key);
+      const regularIndex = rest.findIndex(
+        (item) =>
+          item.menuItem.id === target.menuItem.id &&
+          isSameOptions(item.options, target.options) &&
+          !item.adjustment &&
+          item.note === target.note
+      );
+      if (regularIndex >= 0) {
+        rest[regularIndex] = { ...rest[regularIndex], quantity: rest[regularIndex].quantity + target.quantity };
+        return { cartItems: rest };
+      }
+      return {
+        cartItems: state.cartItems.map((item) =>
+          item.key === key
+            ? {
+                key: item.note ? item.key : regularLineKey(item.menuItem, item.options),
+                menuItem: item.menuItem,
+                quantity: item.quantity,
+                options: item.options,
+                note: item.note
+              }
+            : item
+        )
+      };
+    });
+  },
+  
+  setCartItemNote: (key: string, note: string, quantity: number) => {
+    set((state) => {
+      const target = state.cartItems.find((item) => item.key === key);
+      if (!target) return {};
+      
+      // 一部の数量だけにメモを付ける場合は、その分を別の行に分ける
+      const notedQuantity = Math.min(Math.max(1, quantity), target.quantity);
+      const notedLine: CartItem = {
+        ...target,
+        key: `${target.menuItem.id}-noted-${++adjustedLineCounter}`,
+        quantity: notedQuantity,
+        note: note.trim() || undefined
+      };
+      const newCartItems = state.cartItems.flatMap((item) => {
+        if (item.key !== key) return [item];
+        const rest = item.quantity - notedQuantity;
+        return rest > 0 ? [{ ...item, quantity: rest }, notedLine] : [notedLine];
+      });
+      return { cartItems: newCartItems };
+    });
+  },
+  
+  clearCart: () => set({ cartItems: [], orderNote: '', appliedCoupon: null, appliedTicket: null }),
+  
+  orderNote: '',
+  
+  setOrderNote: (note: string) => set({ orderNote: note }),
+  
+  appliedCoupon: null,
+  
+  applyCoupon: async (code: string) => {
     const { cartItems } = get();
-    
-    // すべてのドリンクの数を数える
-    const totalDrinks = cartItems.reduce(
-      (total, item) => total + item.quantity,
-      0
-    );
-    
-    // ソフトドリンクの数を数える（後で値引き用）
-    const softDrinks = cartItems.reduce(
-      (total, item) => total + (item.menuItem.category === "ソフトドリンク" ? item.quantity : 0),
-      0
-    );
-    
-    // 通常の料金計算: 1杯700円、2杯1200円、3杯1500円
-    let price = 0;
-    const fullSets = Math.floor(totalDrinks / 3);
-    const remainder = totalDrinks % 3;
-    
-    // 3杯セットの価格を加算
-    price += fullSets * 150000; // 1500円を100倍した値（セント表記）
-    
-    // 残りの杯数の価格を加算
-    if (remainder === 1) {
-      price += 70000; // 700円を100倍
-    } else if (remainder === 2) {
-      price += 120000; // 1200円を100倍
+    // サーバーでクーポンの利用期間・回数を確認し、料金計算用の条件を受け取る
+    const response = await fetch('/api/pricing/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: cartItems.map((item) => ({
+          menuItemId: item.menuItem.id,
+          quantity: item.quantity,
+          options: toOptionSelections(item.options),
+          adjustment: item.adjustment
+        })),
+        couponCode: code
+      }),
+      credentials: 'include',
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      const reason = body.reason as CouponRejection | undefined;
+      throw new Error(reason ? couponRejectionMessages[reason] : body.message);
     }
     
-    // ソフトドリンクの値引き：1杯につき200円引き
-    const discount = softDrinks * 20000; // 200円 × ソフトドリンクの杯数
+    const quote: PriceQuote = body;
+    set({ appliedCoupon: quote.coupon });
+    return quote.coupon!;
+  },
+  
+  removeCoupon: () => set({ appliedCoupon: null }),
+  
+  appliedTicket: null,
+  
+  applyTicket: async (code: string) => {
+    // 残り杯数と有効期限を確認してから、引き換えられる杯数として料金計算に使う
+    const response = await fetch(`/api/tickets/${encodeURIComponent(normalizeTicketCode(code))}`, {
+      credentials: 'include',
+    });
+    if (response.status === 404) {
+      throw new Error(ticketRejectionMessages['not-found']);
+    }
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.message);
+    }
     
-    // 値引き後の価格を返す
-    return Math.max(0, price - discount); // マイナスにならないように0以上を保証
+    const ticket: Ticket = body;
+    const rejection = checkTicket(ticket);
+    if (rejection) {
+      throw new Error(ticketRejectionMessages[rejection]);
+    }
+    set({ appliedTicket: ticket });
+    return ticket;
+  },
+  
+  removeTicket: () => set({ appliedTicket: null }),
+  
+  calculateSubtotal: () => {
+    const { cartItems, appliedCoupon, appliedTicket } = get();
+    return calculatePrice(cartItems, { coupon: appliedCoupon, ticketDrinks: appliedTicket?.remainingDrinks });
+  },
+  
+  calculateQuote: () => {
+    const { cartItems, appliedCoupon, appliedTicket } = get();
+    return quotePrice(cartItems, { coupon: appliedCoupon, ticketDrinks: appliedTicket?.remainingDrinks });
   },
   
   calculateTax: () => {
-    // 消費税を無視
-    return 0;
+    // 内税なので合計金額に含まれる消費税額
+    return get().calculateTaxBreakdown().reduce((total, tax) => total + tax.taxAmount, 0);
+  },
+  
+  calculateTaxBreakdown: () => {
+    const { cartItems, appliedCoupon, appliedTicket } = get();
+    return fromOrderTaxAmounts(
+      priceOrder(cartItems, { coupon: appliedCoupon, ticketDrinks: appliedTicket?.remainingDrinks })
+    );
   },
   
   calculateTotal: () => {
-    // 消費税を無視するので、小計と合計は同じ
+    // 税込価格なので、小計と合計は同じ
     return get().calculateSubtotal();
   },
   
   createOrder: async () => {
-    const { cartItems, calculateTotal, clearCart } = get();
+    const { cartItems, orderNote, appliedCoupon, appliedTicket, calculateTotal, clearCart } = get();
     
     if (cartItems.length === 0) {
       return null;
     }
     
     try {
-      // 現在の注文数を取得して次の注文番号を決定
-      const ordersResponse = await apiRequest('GET', '/api/orders');
-      const orders = await ordersResponse.json();
-      const nextOrderNumber = orders.length + 1;
-
+      // 注文番号はサーバーが採番する
       const orderData = {
-        orderNumber: `#${nextOrderNumber}`,
         totalAmount: calculateTotal(),
+        couponCode: appliedCoupon?.code,
+        ticketCode: appliedTicket?.code,
+        note: orderNote,
+        // 明細ごとの金額はサーバー側でセット価格を按分して記録する
         items: cartItems.map((item) => ({
           menuItemId: item.menuItem.id,
           quantity: item.quantity,
-          price: 0 // 価格は表示しないので0にする
+          options: toOptionSelections(item.options),
+          adjustment: item.adjustment,
+          note: item.note
         }))
       };
       
-      const createResponse = await apiRequest('POST', '/api/orders', orderData);
+      // コンプ・価格変更がある場合は管理者トークンを付ける
+      const createResponse = await apiRequest(
+        'POST',
+        '/api/orders',
+        orderData,
+        cartItems.some((item) => item.adjustment) ? adminHeaders() : {}
+      );
       const newOrder = await createResponse.json();
       
       // Clear the cart after successful order creation
@@ -156,8 +403,27 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
       return newOrder;
     } catch (error) {
       console.error('Failed to create order:', error);
-      return null;
+      throw error; // 金額不一致(409)などを画面に表示するため上位に伝播させる
+    }
+  },
+  
+  recordPayment: async (orderId: number, payment: PaymentRequest) => {
+    // QR決済・カードは決済端末の承認を待つ。端末が無い環境ではそのまま記録する
+    const terminalPayment = TERMINAL_PAYMENT_METHODS.includes(payment.method)
+      ? await chargeOnTerminal(orderId, payment)
+      : null;
+    
+    let created = terminalPayment;
+    if (!created) {
+      const response = await postPayment(`/api/orders/${orderId}/payments`, payment);
+      if (!response.ok) throw await paymentError(response);
+      created = await response.json() as Payment;
     }
+    
+    // Invalidate orders cache
+    queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+    
+    return created;
   },
   
   updateOrderStatus: async (orderId: number, status: OrderStatus) => {
@@ -172,19 +438,44 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
     }
   },
 
-  updateOrder: async (orderId: number, orderNumber: string, status: OrderStatus, items: Array<{ menuItemId: number; quantity: number }>) => {
+  updateItemProgress: async (orderId: number, itemId: number, completedQuantity: number) => {
+    try {
+      await apiRequest('PATCH', `/api/orders/${orderId}/items/${itemId}`, { completedQuantity });
+      
+      // Invalidate orders cache
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+    } catch (error) {
+      console.error('Failed to update item progress:', error);
+      throw error;
+    }
+  },
+
+  updateOrder: async (
+    orderId: number,
+    status: OrderStatus,
+    items: Array<{ menuItemId: number; quantity: number; options?: OptionSelection[]; adjustment?: LineAdjustment | null; note?: string | null }>,
+    note?: string | null
+  ) => {
     try {
       // 注文内容をPATCHで更新
       const orderData = {
-        orderNumber,
         status,
+        note,
         items: items.map(item => ({
           menuItemId: item.menuItemId,
-          quantity: item.quantity
+          quantity: item.quantity,
+          options: toOptionSelections(item.options),
+          adjustment: item.adjustment,
+          note: item.note
         }))
       };
       
-      const response = await apiRequest('PATCH', `/api/orders/${orderId}`, orderData);
+      const response = await apiRequest(
+        'PATCH',
+        `/api/orders/${orderId}`,
+        orderData,
+        items.some((item) => item.adjustment) ? adminHeaders() : {}
+      );
       const updatedOrder = await response.json();
       
       // キャッシュを明示的に更新
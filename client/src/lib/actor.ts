@@ -0,0 +1,39 @@
+import { ORDER_ACTOR_HEADERS } from "@shared/orderEvent";
+
+// 注文の変更履歴に記録する端末IDと担当者名（この端末のブラウザに保存する）
+const DEVICE_ID_KEY = "mikan-order:device-id";
+const STAFF_NAME_KEY = "mikan-order:staff-name";
+
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function getStaffName(): string {
+  return localStorage.getItem(STAFF_NAME_KEY) ?? "";
+}
+
+export function setStaffName(name: string) {
+  if (name.trim()) {
+    localStorage.setItem(STAFF_NAME_KEY, name.trim());
+  } else {
+    localStorage.removeItem(STAFF_NAME_KEY);
+  }
+}
+
+// API リクエストに付けるヘッダー
+export function actorHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { [ORDER_ACTOR_HEADERS.deviceId]: getDeviceId() };
+  const staffName = getStaffName();
+  if (staffName) headers[ORDER_ACTOR_HEADERS.staffName] = encodeURIComponent(staffName);
+  return headers;
+}
+
+// 履歴に表示する端末名（IDの先頭だけ）
+export function shortDeviceId(deviceId: string): string {
+  return deviceId.slice(0, 8);
+}
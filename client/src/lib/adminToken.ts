@@ -0,0 +1,18 @@
+import { ADMIN_TOKEN_HEADER } from "@shared/admin";
+
+// 管理者用のトークンはタブを閉じるまでだけ保存する
+const ADMIN_TOKEN_KEY = "mikan-order:admin-token";
+
+export function getAdminToken(): string {
+  return sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? "";
+}
+
+export function setAdminToken(token: string) {
+  sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+}
+
+// 管理者の承認が要るリクエスト（注文の完全削除・コンプ・価格変更・前売りチケットの発行）に付けるヘッダー
+export function adminHeaders(): Record<string, string> {
+  const token = getAdminToken();
+  return token ? { [ADMIN_TOKEN_HEADER]: token } : {};
+}
@@ -0,0 +1,41 @@
+// 印刷用のHTMLを別ウィンドウで開いて印刷ダイアログを表示する
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 100倍した金額を ¥1,234 の形式にする
+export function formatYen(amount: number): string {
+  return `${amount < 0 ? "-" : ""}¥${(Math.abs(amount) / 100).toLocaleString()}`;
+}
+
+const PRINT_STYLES = `
+  body { font-family: sans-serif; font-size: 12px; margin: 0 auto; padding: 16px; max-width: 320px; color: #000; }
+  h1 { font-size: 16px; text-align: center; margin: 0 0 8px; }
+  h2 { font-size: 13px; margin: 12px 0 4px; border-bottom: 1px dashed #000; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 2px 0; vertical-align: top; }
+  td.amount { text-align: right; white-space: nowrap; }
+  .center { text-align: center; }
+  .total td { font-weight: bold; font-size: 14px; border-top: 1px solid #000; }
+  .muted { color: #555; font-size: 11px; }
+  @media print { body { padding: 0; } }
+`;
+
+export function printHtml(title: string, body: string): void {
+  const printWindow = window.open("", "_blank", "width=420,height=640");
+  if (!printWindow) {
+    throw new Error("印刷用のウィンドウを開けませんでした。ポップアップを許可してください。");
+  }
+  printWindow.document.write(
+    `<!DOCTYPE html><html lang="ja"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+      `<style>${PRINT_STYLES}</style></head><body>${body}</body></html>`
+  );
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,156 @@
+import type { PaymentMethod } from "@shared/schema";
+import { paymentMethodLabels, paidTotal } from "@shared/payment";
+import { refundTotal } from "@shared/refund";
+import { STORE_INFO } from "@shared/storeInfo";
+import { optionsLabel } from "@shared/menuOption";
+import { format } from "date-fns";
+import { escapeHtml, formatYen } from "@/lib/print";
+
+export type ReceiptKind = "receipt" | "formal-receipt";
+
+export const receiptKindLabels: Record<ReceiptKind, string> = {
+  receipt: "レシート",
+  "formal-receipt": "領収書",
+};
+
+export const DEFAULT_RECEIPT_PROVISO = "お飲食代";
+
+export interface ReceiptOptions {
+  kind: ReceiptKind;
+  addressee?: string; // 宛名（領収書のみ）
+  proviso?: string; // 但し書き（領収書のみ）
+  reprint?: boolean;
+}
+
+// 注文履歴の注文（日時が文字列）もそのまま渡せるように必要な項目だけを受け取る
+export interface ReceiptOrder {
+  orderNumber: string;
+  createdAt: Date | string;
+  totalAmount: number;
+  taxableAmount10: number;
+  taxAmount10: number;
+  taxableAmount8: number;
+  taxAmount8: number;
+  items: Array<{
+    menuItem: { name: string; taxRate?: number; productType?: string };
+    quantity: number;
+    price: number;
+    adjustmentKind: string | null;
+    options?: Array<{ name: string }> | null;
+  }>;
+  payments: Array<{ method: string; amount: number; tenderedAmount: number; changeAmount: number }>;
+  refunds: Array<{
+    amount: number;
+    taxableAmount10: number;
+    taxAmount10: number;
+    taxableAmount8: number;
+    taxAmount8: number;
+  }>;
+}
+
+function row(label: string, amount: string): string {
+  return `<tr><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`;
+}
+
+// 返金があれば差し引いた後の税率ごとの金額
+function netTaxRows(order: ReceiptOrder): string {
+  const sum = (key: "taxableAmount10" | "taxAmount10" | "taxableAmount8" | "taxAmount8") =>
+    order.refunds.reduce((total, refund) => total + refund[key], order[key]);
+  return [
+    { label: "10%対象", taxableAmount: sum("taxableAmount10"), taxAmount: sum("taxAmount10") },
+    { label: "8%対象※", taxableAmount: sum("taxableAmount8"), taxAmount: sum("taxAmount8") },
+  ]
+    .filter((tax) => tax.taxableAmount > 0)
+    .map((tax) => row(`${tax.label} ${formatYen(tax.taxableAmount)}`, `内消費税 ${formatYen(tax.taxAmount)}`))
+    .join("");
+}
+
+function renderItems(order: ReceiptOrder): string {
+  const itemRows = order.items
+    .map((item) => {
+      const reduced = item.menuItem.taxRate === 8 ? "※" : "";
+      const adjusted = item.adjustmentKind ? "（調整）" : "";
+      const options = item.options?.length ? `（${optionsLabel(item.options)}）` : "";
+      return row(`${item.menuItem.name}${options}${reduced} × ${item.quantity}${adjusted}`, formatYen(item.price));
+    })
+    .join("");
+  const refunded = refundTotal(order.refunds);
+
+  return `
+    <table>
+      ${itemRows}
+      <tr class="total"><td>合計</td><td class="amount">${formatYen(order.totalAmount)}</td></tr>
+      ${refunded !== 0 ? row("返金", formatYen(refunded)) + row("差引合計", formatYen(order.totalAmount + refunded)) : ""}
+    </table>
+  `;
+}
+
+function renderPayments(order: ReceiptOrder): string {
+  if (order.payments.length === 0) {
+    return `<p class="center">未払い</p>`;
+  }
+  return `
+    <table>
+      ${order.payments
+        .map((payment) => {
+          const label = paymentMethodLabels[payment.method as PaymentMethod] ?? payment.method;
+          // 現金はお預かりとお釣りも記載する
+          return payment.method === "cash"
+            ? row(label, formatYen(payment.amount)) +
+                row("お預かり", formatYen(payment.tenderedAmount)) +
+                row("お釣り", formatYen(payment.changeAmount))
+            : row(label, formatYen(payment.amount));
+        })
+        .join("")}
+    </table>
+  `;
+}
+
+// レシート・領収書（印刷用HTML）
+export function renderReceipt(order: ReceiptOrder, options: ReceiptOptions): string {
+  const issuedAt = format(new Date(order.createdAt), "yyyy/MM/dd HH:mm");
+  const reprint = options.reprint ? `<p class="center">【再発行】</p>` : "";
+  const hasReducedRate = order.items.some((item) => item.menuItem.taxRate === 8);
+  const hasDeposit = order.items.some((item) => item.menuItem.productType === "deposit");
+  const storeFooter = `
+    <div class="center muted">
+      ${escapeHtml(STORE_INFO.name)}<br>
+      登録番号: ${escapeHtml(STORE_INFO.invoiceRegistrationNumber)}
+      ${hasReducedRate ? "<br>※は軽減税率（8%）対象" : ""}
+      ${hasDeposit ? "<br>デポジットは消費税の対象外です。カップの返却時にお返しします" : ""}
+    </div>
+  `;
+
+  if (options.kind === "formal-receipt") {
+    // 受け取った金額から返金分を差し引いた額を領収額とする
+    const received = paidTotal(order.payments) + refundTotal(order.refunds);
+    const addressee = options.addressee?.trim() || "";
+    const proviso = options.proviso?.trim() || DEFAULT_RECEIPT_PROVISO;
+    return `
+      <h1>領収書</h1>
+      ${reprint}
+      <p style="border-bottom: 1px solid #000; font-size: 14px;">${escapeHtml(addressee)} 様</p>
+      <p class="center" style="font-size: 20px; font-weight: bold;">${formatYen(received)}-</p>
+      <p>但し ${escapeHtml(proviso)} として<br>上記正に領収いたしました。</p>
+      <table>
+        ${row("注文番号", order.orderNumber)}
+        ${row("日付", issuedAt)}
+        ${netTaxRows(order)}
+      </table>
+      ${storeFooter}
+    `;
+  }
+
+  return `
+    <h1>${escapeHtml(STORE_INFO.name)}</h1>
+    ${reprint}
+    <div class="center muted">${escapeHtml(issuedAt)}</div>
+    <p class="center" style="font-size: 20px; font-weight: bold; margin: 8px 0;">${escapeHtml(order.orderNumber)}</p>
+    <h2>ご注文</h2>
+    ${renderItems(order)}
+    <table>${netTaxRows(order)}</table>
+    <h2>お支払い</h2>
+    ${renderPayments(order)}
+    ${storeFooter}
+  `;
+}
@@ -0,0 +1,53 @@
+import type { PaymentMethod, RegisterClose } from "@shared/schema";
+import { DENOMINATIONS } from "@shared/registerClose";
+import { paymentMethodLabels } from "@shared/payment";
+import { STORE_INFO } from "@shared/storeInfo";
+import { format } from "date-fns";
+import { escapeHtml, formatYen } from "@/lib/print";
+
+function row(label: string, amount: string): string {
+  return `<tr><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`;
+}
+
+// レジ締めレポート（印刷用HTML）
+export function renderRegisterCloseReport(registerClose: RegisterClose): string {
+  const period = registerClose.periodStart
+    ? `${format(new Date(registerClose.periodStart), "yyyy/MM/dd HH:mm")} 〜 `
+    : "〜 ";
+  const denominationRows = DENOMINATIONS.map((denomination) => {
+    const count = registerClose.denominationCounts[denomination.value] ?? 0;
+    return row(`${denomination.label} × ${count}`, formatYen(denomination.value * count));
+  }).join("");
+  const paymentRows = Object.entries(registerClose.paymentTotals)
+    .map(([method, amount]) => row(paymentMethodLabels[method as PaymentMethod] ?? method, formatYen(amount)))
+    .join("");
+  const difference = registerClose.difference === 0
+    ? "過不足なし"
+    : registerClose.difference > 0 ? "過剰" : "不足";
+
+  return `
+    <h1>${escapeHtml(STORE_INFO.name)} レジ締め</h1>
+    <div class="center muted">
+      ${escapeHtml(period)}${escapeHtml(format(new Date(registerClose.closedAt), "yyyy/MM/dd HH:mm"))}
+    </div>
+    <h2>売上</h2>
+    <table>
+      ${row(`注文数 ${registerClose.orderCount}件`, formatYen(registerClose.salesTotal))}
+      ${row("返金", formatYen(registerClose.refundTotal))}
+      ${row("デポジット預り（売上外）", formatYen(registerClose.depositTotal))}
+      ${paymentRows}
+    </table>
+    <h2>現金</h2>
+    <table>
+      ${denominationRows}
+      ${row("現金合計", formatYen(registerClose.countedCash))}
+      ${row("釣銭準備金", formatYen(registerClose.openingFloat))}
+      ${row("現金売上", formatYen(registerClose.cashSales))}
+      ${row("現金での返金", formatYen(registerClose.cashRefundTotal))}
+      ${row("デポジット返却", formatYen(registerClose.depositRefundTotal))}
+      ${row("想定額", formatYen(registerClose.expectedCash))}
+      <tr class="total"><td>${difference}</td><td class="amount">${formatYen(registerClose.difference)}</td></tr>
+    </table>
+    ${registerClose.note ? `<p>${escapeHtml(registerClose.note)}</p>` : ""}
+  `;
+}
@@ -0,0 +1,25 @@
+import type { Ticket } from "@shared/schema";
+import { STORE_INFO } from "@shared/storeInfo";
+import { format } from "date-fns";
+import { escapeHtml, formatYen } from "@/lib/print";
+
+// 前売りチケット（印刷用HTML）。qrCodes はチケットコードをキーにした QR コードの data URL
+export function renderTickets(tickets: Ticket[], qrCodes: Record<string, string>): string {
+  return tickets
+    .map((ticket) => {
+      const validUntil = ticket.validUntil
+        ? `有効期限 ${format(new Date(ticket.validUntil), "yyyy/MM/dd")}`
+        : "有効期限なし";
+      return `
+        <div class="center" style="page-break-after: always;">
+          <h1>${escapeHtml(STORE_INFO.name)} 前売りチケット</h1>
+          <div>ドリンク ${ticket.drinks}杯（${escapeHtml(formatYen(ticket.price))}）</div>
+          <img src="${qrCodes[ticket.code] ?? ""}" alt="" style="width: 200px; height: 200px;" />
+          <div style="font-size: 16px; font-weight: bold;">${escapeHtml(ticket.code)}</div>
+          <div class="muted">${escapeHtml(validUntil)}</div>
+          <div class="muted">レジでこのQRコードをご提示ください</div>
+        </div>
+      `;
+    })
+    .join("");
+}
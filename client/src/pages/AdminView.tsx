@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { actorHeaders } from "@/lib/actor";
+import { getAdminToken, setAdminToken as saveAdminToken } from "@/lib/adminToken";
+import { ADMIN_TOKEN_HEADER } from "@shared/admin";
+import { cancelReasonLabels } from "@shared/orderStatus";
+import type { CancelReason, OrderWithItems } from "@shared/schema";
+
+// 取消済みの注文の完全削除（テスト注文の片付けなど）。ADMIN_TOKEN を知っている管理者だけが使える
+export default function AdminView() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [adminToken, setAdminToken] = useState(getAdminToken);
+  const [orderToPurge, setOrderToPurge] = useState<OrderWithItems | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const { data: orders } = useQuery<OrderWithItems[]>({
+    queryKey: ["/api/orders"],
+    queryFn: async () => {
+      const response = await fetch("/api/orders?withItems=true");
+      if (!response.ok) {
+        throw new Error("Failed to fetch orders");
+      }
+      return response.json();
+    },
+  });
+  const cancelledOrders = (orders ?? []).filter((order) => order.status === "cancelled");
+
+  // Format price from cents to display format
+  const formatPrice = (priceInCents: number) => {
+    return `${priceInCents < 0 ? "-" : ""}¥${(Math.abs(priceInCents) / 100).toLocaleString()}`;
+  };
+
+  const handleTokenChange = (value: string) => {
+    setAdminToken(value);
+    saveAdminToken(value);
+  };
+
+  const handlePurge = async () => {
+    if (!orderToPurge || isPurging) return;
+
+    setIsPurging(true);
+    try {
+      const response = await fetch(`/api/orders/${orderToPurge.id}`, {
+        method: "DELETE",
+        headers: { ...actorHeaders(), [ADMIN_TOKEN_HEADER]: adminToken },
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(response.status === 403 ? "管理者トークンが正しくありません" : body.message);
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ["/api/orders"], refetchType: "all" });
+      toast({ title: `注文 ${orderToPurge.orderNumber} を完全に削除しました` });
+      setOrderToPurge(null);
+    } catch (error) {
+      toast({
+        title: "削除に失敗しました",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">注文の完全削除</h2>
+          <p className="text-sm text-gray-500">
+            取消済みの注文だけを削除できます。削除しても変更履歴は残ります。
+          </p>
+        </div>
+
+        <div className="space-y-2 max-w-sm">
+          <Label htmlFor="admin-token">管理者トークン</Label>
+          <Input
+            id="admin-token"
+            type="password"
+            value={adminToken}
+            onChange={(e) => handleTokenChange(e.target.value)}
+          />
+        </div>
+
+        {cancelledOrders.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">注文番号</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">取消日時</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">理由</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">金額</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {cancelledOrders.map((order) => (
+                <tr key={order.id}>
+                  <td className="px-4 py-2">{order.orderNumber}</td>
+                  <td className="px-4 py-2">
+                    {order.cancelledAt && format(parseISO(order.cancelledAt.toString()), "yyyy/MM/dd HH:mm")}
+                  </td>
+                  <td className="px-4 py-2">
+                    {order.cancelReason && cancelReasonLabels[order.cancelReason as CancelReason]}
+                  </td>
+                  <td className="px-4 py-2">{formatPrice(order.totalAmount)}</td>
+                  <td className="px-4 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-600 flex items-center gap-1"
+                      onClick={() => setOrderToPurge(order)}
+                      disabled={!adminToken}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      完全に削除
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500">取消済みの注文はありません</p>
+        )}
+      </CardContent>
+
+      <Dialog open={!!orderToPurge} onOpenChange={() => !isPurging && setOrderToPurge(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>注文の完全削除</DialogTitle>
+            <DialogDescription>
+              注文 {orderToPurge?.orderNumber} を削除します。この操作は元に戻せません。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setOrderToPurge(null)} disabled={isPurging}>
+              キャンセル
+            </Button>
+            <Button variant="destructive" onClick={handlePurge} disabled={isPurging}>
+              {isPurging ? "削除中..." : "削除する"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,17 +1,51 @@
 import { useState, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { OrderWithItems, OrderStatus } from "@shared/schema";
+import { KITCHEN_CANCELLED_DISPLAY_MS } from "@shared/orderStatus";
 import { supabase } from "@/lib/supabaseClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import OrderCard from "@/components/OrderCard";
 import { Skeleton } from "@/components/ui/skeleton";
 
-type FilterStatus = "all" | OrderStatus;
+// open: 新規と調理中（これから作る注文）と、取り消されたばかりの注文
+type FilterStatus = "all" | "open" | OrderStatus;
+
+const filterButtons: Array<{ value: FilterStatus; label: string; className: string }> = [
+  { value: "open", label: "未完了", className: "bg-yellow-500 text-white" },
+  { value: "ready", label: "完了", className: "bg-green-500 text-white" },
+  { value: "picked-up", label: "受け渡し済み", className: "bg-gray-500 text-white" },
+  { value: "cancelled", label: "取消", className: "bg-red-500 text-white" },
+  { value: "all", label: "すべて", className: "" },
+];
+
+// 取り消されたばかりの注文は、作りかけのドリンクを止められるようにしばらく表示する
+function isRecentlyCancelled(order: OrderWithItems, now: number): boolean {
+  return (
+    order.status === "cancelled" &&
+    !!order.cancelledAt &&
+    now - new Date(order.cancelledAt).getTime() < KITCHEN_CANCELLED_DISPLAY_MS
+  );
+}
+
+function matchesFilter(order: OrderWithItems, filter: FilterStatus, now: number): boolean {
+  if (filter === "all") return true;
+  if (filter === "open") {
+    return order.status === "new" || order.status === "in-progress" || isRecentlyCancelled(order, now);
+  }
+  return order.status === filter;
+}
 
 export default function KitchenView() {
-  const [filter, setFilter] = useState<FilterStatus>("in-progress");
+  const [filter, setFilter] = useState<FilterStatus>("open");
   const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => Date.now());
+
+  // 取消の表示時間を過ぎた注文を消すために定期的に再描画する
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 10000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Supabase Realtime（Vercel環境のみ）。未設定のRender環境ではポーリングにフォールバック。
   useEffect(() => {
@@ -40,15 +74,17 @@ export default function KitchenView() {
   
   // フィルタリングされた注文
   const filteredOrders = orders
-    ? orders.filter(order => filter === "all" || order.status === filter)
+    ? orders.filter(order => matchesFilter(order, filter, now))
         .sort((a, b) => {
           const timeA = new Date(a.createdAt).getTime();
           const timeB = new Date(b.createdAt).getTime();
-          return filter === "in-progress" ? timeA - timeB : timeB - timeA;
+          // 未完了は古い順（先に受けた注文から作る）
+          return filter === "open" ? timeA - timeB : timeB - timeA;
         })
     : [];
   
   // ステータスごとのカウント
+  const countNew = orders ? orders.filter(order => order.status === "new").length : 0;
   const countInProgress = orders ? orders.filter(order => order.status === "in-progress").length : 0;
   const countReady = orders ? orders.filter(order => order.status === "ready").length : 0;
 
@@ -59,6 +95,10 @@ export default function KitchenView() {
           <div className="flex justify-between items-center flex-wrap gap-4">
             <h2 className="text-xl font-bold">厨房注文画面</h2>
             <div className="flex items-center space-x-4 flex-wrap gap-2">
+              <div className="flex items-center">
+                <div className="w-3 h-3 bg-blue-500 rounded-full mr-1"></div>
+                <span className="text-sm">新規: {countNew}</span>
+              </div>
               <div className="flex items-center">
                 <div className="w-3 h-3 bg-yellow-500 rounded-full mr-1"></div>
                 <span className="text-sm">調理中: {countInProgress}</span>
@@ -74,20 +114,16 @@ export default function KitchenView() {
       
       {/* Order filter */}
       <div className="mb-6 flex flex-wrap gap-2">
-        <Button
-          variant={filter === "in-progress" ? "default" : "secondary"}
-          className={filter === "in-progress" ? "" : "bg-yellow-500 text-white"}
-          onClick={() => setFilter("in-progress")}
-        >
-          調理中
-        </Button>
-        <Button
-          variant={filter === "ready" ? "default" : "secondary"}
-          className={filter === "ready" ? "" : "bg-green-500 text-white"}
-          onClick={() => setFilter("ready")}
-        >
-          完了
-        </Button>
+        {filterButtons.map((button) => (
+          <Button
+            key={button.value}
+            variant={filter === button.value ? "default" : "secondary"}
+            className={filter === button.value ? "" : button.className}
+            onClick={() => setFilter(button.value)}
+          >
+            {button.label}
+          </Button>
+        ))}
       </div>
       
       {/* Orders grid */}
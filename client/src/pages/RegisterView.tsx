@@ -1,6 +1,9 @@
 import MenuGrid from "@/components/MenuGrid";
 import OrderSummary from "@/components/OrderSummary";
 import OrderHistory from "@/components/OrderHistory";
+import RegisterClose from "@/components/RegisterClose";
+import TicketManager from "@/components/TicketManager";
+import CupDeposit from "@/components/CupDeposit";
 
 export default function RegisterView() {
   return (
@@ -19,6 +22,15 @@ export default function RegisterView() {
       
       {/* Order History */}
       <OrderHistory />
+      
+      {/* Reusable Cups */}
+      <CupDeposit />
+      
+      {/* Register Close */}
+      <RegisterClose />
+      
+      {/* Prepaid Tickets */}
+      <TicketManager />
     </div>
   );
 }
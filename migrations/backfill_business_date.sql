@@ -0,0 +1,28 @@
+-- 営業日ごとの注文番号に切り替える前の orders に business_date を埋める。
+-- npm run db:push の前に一度だけ実行する（既存の行があると NOT NULL の列を追加できないため）。
+-- 営業日は shared/orderNumber.ts の businessDateOf() と同じく、店舗の現地時刻（Asia/Tokyo）で
+-- 5:00 を境に切り替わる。created_at はタイムゾーンなしの UTC で保存されている。
+-- 以前の order_number は全体で一意だったので、(business_date, order_number) も重複しない。
+alter table orders add column if not exists business_date text;
+
+update orders
+set business_date = to_char(
+  (created_at at time zone 'UTC' at time zone 'Asia/Tokyo') - interval '5 hours',
+  'YYYY-MM-DD'
+)
+where business_date is null;
+
+alter table orders alter column business_date set not null;
+
+-- 移行した日にこれまでと同じ番号を振らないよう、営業日ごとの連番を既存の注文の最大値から始める
+create table if not exists order_number_sequences (
+  sequence_key text primary key,
+  last_value integer not null
+);
+
+insert into order_number_sequences as s (sequence_key, last_value)
+select business_date, max(substring(order_number from '[0-9]+$')::integer)
+from orders
+where order_number ~ '[0-9]+$'
+group by business_date
+on conflict (sequence_key) do update set last_value = greatest(s.last_value, excluded.last_value);
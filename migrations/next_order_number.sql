@@ -0,0 +1,11 @@
+-- 注文番号の連番を1つ進めて返す。複数のレジから同時に注文しても同じ番号にならないよう、
+-- 行ロックを伴う upsert で order_number_sequences を更新する（テーブルは npm run db:push で作成される）
+create or replace function next_order_number(p_sequence_key text, p_start integer default 1)
+returns integer
+language sql
+as $$
+  insert into order_number_sequences as s (sequence_key, last_value)
+  values (p_sequence_key, p_start)
+  on conflict (sequence_key) do update set last_value = s.last_value + 1
+  returning last_value;
+$$;
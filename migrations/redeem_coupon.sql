@@ -0,0 +1,20 @@
+-- クーポンの利用を記録する。利用回数が usage_limit に達している場合は記録せず false を返す。
+-- 複数のレジから同時に使われても上限を超えないよう、クーポンの行をロックしてから数える
+create or replace function redeem_coupon(p_coupon_id integer, p_order_id integer, p_discount_amount integer)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_usage_limit integer;
+begin
+  select usage_limit into v_usage_limit from coupons where id = p_coupon_id for update;
+  if v_usage_limit is not null
+    and (select count(*) from coupon_redemptions where coupon_id = p_coupon_id) >= v_usage_limit then
+    return false;
+  end if;
+
+  insert into coupon_redemptions (coupon_id, order_id, discount_amount)
+  values (p_coupon_id, p_order_id, p_discount_amount);
+  return true;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- 前売りチケットの引き換えを記録し、残り杯数から差し引く。残り杯数が足りない場合は記録せず false を返す。
+-- 複数のレジから同時に引き換えても残り杯数を超えないよう、残り杯数を条件にして差し引く
+create or replace function redeem_ticket(p_ticket_id integer, p_order_id integer, p_drinks integer, p_amount integer)
+returns boolean
+language plpgsql
+as $$
+begin
+  update tickets set remaining_drinks = remaining_drinks - p_drinks
+  where id = p_ticket_id and remaining_drinks >= p_drinks;
+  if not found then
+    return false;
+  end if;
+
+  insert into ticket_redemptions (ticket_id, order_id, drinks, amount)
+  values (p_ticket_id, p_order_id, p_drinks, p_amount);
+  return true;
+end;
+$$;
+
+-- チケットの残り杯数を p_change だけ変える（引き換えはマイナス、取り消しはプラス）。
+-- 残り杯数が足りない場合は変えずに false を返す
+create or replace function change_ticket_drinks(p_ticket_id integer, p_change integer)
+returns boolean
+language plpgsql
+as $$
+begin
+  update tickets set remaining_drinks = remaining_drinks + p_change
+  where id = p_ticket_id and remaining_drinks + p_change >= 0;
+  return found;
+end;
+$$;
@@ -0,0 +1,199 @@
+import iconv from "iconv-lite";
+import type { OrderWithItems, PaymentMethod } from "@shared/schema";
+import { adjustmentKindLabels } from "@shared/adjustment";
+import { optionsLabel } from "@shared/menuOption";
+import { paymentMethodLabels } from "@shared/payment";
+import { refundTotal } from "@shared/refund";
+import { STORE_INFO } from "@shared/storeInfo";
+
+// サーマルプリンター用の ESC/POS コマンド列を組み立てる。
+// 日本語は漢字モード（Shift_JIS）で送るので、文字幅は Shift_JIS のバイト数と一致する
+// （全角 = 2バイト = 2桁、半角 = 1バイト = 1桁）
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+export type Align = "left" | "center" | "right";
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+function encode(text: string): Buffer {
+  return iconv.encode(text, "Shift_JIS");
+}
+
+export class EscPosBuilder {
+  private chunks: Buffer[] = [];
+
+  // columns: 1行の桁数（80mm 紙で 48桁、58mm 紙で 32桁）
+  constructor(private columns: number = 48) {
+    // 初期化、国際文字セットを日本、漢字モード ON、漢字コード系を Shift_JIS にする
+    this.raw(ESC, 0x40, ESC, 0x52, 0x08, FS, 0x26, FS, 0x43, 0x01);
+  }
+
+  raw(...bytes: number[]): this {
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  align(align: Align): this {
+    return this.raw(ESC, 0x61, ALIGN_CODES[align]);
+  }
+
+  bold(on: boolean): this {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // 文字の拡大（1〜8倍）
+  size(width: number, height: number = width): this {
+    return this.raw(GS, 0x21, ((width - 1) << 4) | (height - 1));
+  }
+
+  text(text: string): this {
+    this.chunks.push(encode(text));
+    return this;
+  }
+
+  line(text: string = ""): this {
+    return this.text(text).raw(LF);
+  }
+
+  // 左に項目名、右に金額を並べる。収まらない場合は金額を次の行に送る
+  columnsLine(left: string, right: string): this {
+    const space = this.columns - encode(left).length - encode(right).length;
+    if (space < 1) {
+      return this.line(left).line(" ".repeat(Math.max(0, this.columns - encode(right).length)) + right);
+    }
+    return this.line(left + " ".repeat(space) + right);
+  }
+
+  rule(char: string = "-"): this {
+    return this.line(char.repeat(this.columns));
+  }
+
+  feed(lines: number): this {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  // 数行送ってから用紙をカットする（パーシャルカット）
+  cut(): this {
+    return this.raw(GS, 0x56, 0x42, 0x03);
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+function formatYen(amount: number): string {
+  return `${amount < 0 ? "-" : ""}¥${(Math.abs(amount) / 100).toLocaleString()}`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString("ja-JP", {
+    timeZone: STORE_INFO.timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// バー・厨房向けの伝票。注文番号と品目を大きく印字する
+export function renderKitchenTicket(order: OrderWithItems, columns?: number): Buffer {
+  const builder = new EscPosBuilder(columns)
+    .align("center")
+    .line("オーダー")
+    .size(3)
+    .bold(true)
+    .line(order.orderNumber)
+    .bold(false)
+    .size(1)
+    .line(formatDateTime(new Date(order.createdAt)))
+    .align("left")
+    .rule();
+
+  for (const item of order.items) {
+    builder.size(2).line(`${item.menuItem.name} × ${item.quantity}`).size(1);
+    if (item.options?.length) {
+      builder.bold(true).line(`  ${optionsLabel(item.options)}`).bold(false);
+    }
+    if (item.adjustmentKind) {
+      builder.line(`  (${adjustmentKindLabels[item.adjustmentKind as keyof typeof adjustmentKindLabels]})`);
+    }
+    if (item.note) {
+      builder.bold(true).line(`  * ${item.note}`).bold(false);
+    }
+  }
+
+  // 注文全体のメモは見落とさないよう最後に大きく出す
+  if (order.note) {
+    builder.rule().size(2).bold(true).line(order.note).bold(false).size(1);
+  }
+
+  return builder.rule().feed(3).cut().build();
+}
+
+// お客様向けのレシート
+export function renderReceipt(order: OrderWithItems, columns?: number): Buffer {
+  const builder = new EscPosBuilder(columns)
+    .align("center")
+    .size(2)
+    .line(STORE_INFO.name)
+    .size(1)
+    .line(`登録番号: ${STORE_INFO.invoiceRegistrationNumber}`)
+    .line(formatDateTime(new Date(order.createdAt)))
+    .size(3)
+    .bold(true)
+    .line(order.orderNumber)
+    .bold(false)
+    .size(1)
+    .align("left")
+    .rule();
+
+  for (const item of order.items) {
+    const reduced = item.menuItem.taxRate === 8 ? "※" : "";
+    const options = item.options?.length ? `（${optionsLabel(item.options)}）` : "";
+    builder.columnsLine(`${item.menuItem.name}${options}${reduced} × ${item.quantity}`, formatYen(item.price));
+  }
+
+  builder.rule().bold(true).columnsLine("合計", formatYen(order.totalAmount)).bold(false);
+
+  const refunded = refundTotal(order.refunds);
+  if (refunded !== 0) {
+    builder.columnsLine("返金", formatYen(refunded)).columnsLine("差引合計", formatYen(order.totalAmount + refunded));
+  }
+
+  // 返金があれば差し引いた後の税率ごとの金額
+  const net = (key: "taxableAmount10" | "taxAmount10" | "taxableAmount8" | "taxAmount8") =>
+    order.refunds.reduce((total, refund) => total + refund[key], order[key]);
+  if (net("taxableAmount10") > 0) {
+    builder.columnsLine(`10%対象 ${formatYen(net("taxableAmount10"))}`, `内消費税 ${formatYen(net("taxAmount10"))}`);
+  }
+  if (net("taxableAmount8") > 0) {
+    builder.columnsLine(`8%対象※ ${formatYen(net("taxableAmount8"))}`, `内消費税 ${formatYen(net("taxAmount8"))}`);
+  }
+
+  if (order.payments.length > 0) {
+    builder.rule();
+    for (const payment of order.payments) {
+      builder.columnsLine(paymentMethodLabels[payment.method as PaymentMethod] ?? payment.method, formatYen(payment.amount));
+      if (payment.method === "cash") {
+        builder
+          .columnsLine("お預かり", formatYen(payment.tenderedAmount))
+          .columnsLine("お釣り", formatYen(payment.changeAmount));
+      }
+    }
+  }
+
+  if (order.items.some((item) => item.menuItem.taxRate === 8)) {
+    builder.line("※は軽減税率（8%）対象");
+  }
+  if (order.items.some((item) => item.menuItem.productType === "deposit")) {
+    builder.line("デポジットは消費税の対象外です").line("カップの返却時にお返しします");
+  }
+
+  return builder.feed(4).cut().build();
+}
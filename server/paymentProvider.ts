@@ -0,0 +1,86 @@
+import type { PaymentMethod } from "@shared/schema";
+import type { ChargeStatus } from "@shared/payment";
+
+export interface Charge {
+  id: string;
+  orderId: number;
+  method: PaymentMethod;
+  amount: number;
+  refundedAmount: number;
+  status: ChargeStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 決済端末（QR決済・カード）との接続口。実際の端末を繋ぐときはこのインターフェースを実装する
+export interface PaymentProvider {
+  // 端末に金額を送って決済を開始する。結果は非同期に確定するので getCharge で確認する
+  createCharge(charge: { orderId: number; method: PaymentMethod; amount: number }): Promise<Charge>;
+  getCharge(chargeId: string): Promise<Charge | undefined>;
+  refundCharge(chargeId: string, amount: number): Promise<Charge | undefined>;
+}
+
+export type MockChargeOutcome = "approve" | "decline" | "timeout";
+
+// 外部サービスを使わずに端末の動きを再現するモック。
+// 決済は delayMs の間 pending のままで、その後 outcome の結果になる
+export class MockPaymentProvider implements PaymentProvider {
+  private charges: Map<string, Charge>;
+  private chargeIdCounter: number;
+
+  constructor(
+    private outcome: MockChargeOutcome = "approve",
+    private delayMs: number = 3000
+  ) {
+    this.charges = new Map();
+    this.chargeIdCounter = 1;
+  }
+
+  async createCharge(chargeData: { orderId: number; method: PaymentMethod; amount: number }): Promise<Charge> {
+    const now = new Date();
+    const charge: Charge = {
+      ...chargeData,
+      id: `mock_${this.chargeIdCounter++}`,
+      refundedAmount: 0,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now
+    };
+    this.charges.set(charge.id, charge);
+    return charge;
+  }
+
+  async getCharge(chargeId: string): Promise<Charge | undefined> {
+    const charge = this.charges.get(chargeId);
+    if (!charge || charge.status !== "pending") return charge;
+
+    // 端末での操作時間が経過したら結果を確定する
+    if (Date.now() - charge.createdAt.getTime() < this.delayMs) return charge;
+    const status: ChargeStatus =
+      this.outcome === "approve" ? "approved" : this.outcome === "decline" ? "declined" : "timeout";
+    const settled = { ...charge, status, updatedAt: new Date() };
+    this.charges.set(chargeId, settled);
+    return settled;
+  }
+
+  async refundCharge(chargeId: string, amount: number): Promise<Charge | undefined> {
+    const charge = await this.getCharge(chargeId);
+    if (!charge || (charge.status !== "approved" && charge.status !== "refunded")) return undefined;
+
+    const refundedAmount = Math.min(charge.amount, charge.refundedAmount + amount);
+    const refunded: Charge = {
+      ...charge,
+      refundedAmount,
+      status: refundedAmount === charge.amount ? "refunded" : charge.status,
+      updatedAt: new Date()
+    };
+    this.charges.set(chargeId, refunded);
+    return refunded;
+  }
+}
+
+// MOCK_PAYMENT_OUTCOME=decline / timeout で失敗時の画面を確認できる
+export const paymentProvider: PaymentProvider = new MockPaymentProvider(
+  (process.env.MOCK_PAYMENT_OUTCOME as MockChargeOutcome | undefined) ?? "approve",
+  process.env.MOCK_PAYMENT_DELAY_MS ? parseInt(process.env.MOCK_PAYMENT_DELAY_MS) : 3000
+);
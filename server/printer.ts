@@ -0,0 +1,63 @@
+import { appendFile } from "fs/promises";
+import { Socket } from "net";
+
+// ESC/POS のバイト列を送る先。ネットワークプリンター（RAW 9100番ポート）かファイル
+export interface PrinterTarget {
+  readonly description: string;
+  send(data: Buffer): Promise<void>;
+}
+
+export class NetworkPrinter implements PrinterTarget {
+  constructor(
+    private host: string,
+    private port: number = 9100,
+    private timeoutMs: number = 5000
+  ) {}
+
+  get description(): string {
+    return `${this.host}:${this.port}`;
+  }
+
+  send(data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new Socket();
+      socket.setTimeout(this.timeoutMs);
+      socket.once("timeout", () => socket.destroy(new Error(`Printer ${this.description} timed out`)));
+      socket.once("error", reject);
+      socket.connect(this.port, this.host, () => {
+        socket.end(data, () => resolve());
+      });
+    });
+  }
+}
+
+// 動作確認用。印刷データをファイルの末尾に追記する
+export class FilePrinter implements PrinterTarget {
+  constructor(private path: string) {}
+
+  get description(): string {
+    return `file:${this.path}`;
+  }
+
+  async send(data: Buffer): Promise<void> {
+    await appendFile(this.path, data);
+  }
+}
+
+// PRINTER_TARGET=192.168.0.50:9100 または file:/tmp/printer.bin の形式で指定する
+export function parsePrinterTarget(target: string | undefined): PrinterTarget | null {
+  if (!target) return null;
+  if (target.startsWith("file:")) {
+    return new FilePrinter(target.slice("file:".length));
+  }
+  const [host, port] = target.split(":");
+  return new NetworkPrinter(host, port ? parseInt(port) : 9100);
+}
+
+export const printer = parsePrinterTarget(process.env.PRINTER_TARGET);
+
+// 1行の桁数（80mm 紙は 48、58mm 紙は 32）
+export const printerColumns = process.env.PRINTER_COLUMNS ? parseInt(process.env.PRINTER_COLUMNS) : 48;
+
+// 新しい注文をバーのプリンターで自動印刷する
+export const autoPrintOrders = process.env.AUTO_PRINT_ORDERS === "true";
@@ -1,13 +1,226 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { paymentProvider } from "./paymentProvider";
+import { autoPrintOrders, printer, printerColumns } from "./printer";
+import { renderKitchenTicket, renderReceipt } from "./escpos";
 import { z } from "zod";
 import { 
   insertMenuItemSchema, 
   insertOrderSchema, 
   insertOrderItemSchema,
-  OrderStatus 
+  insertCouponSchema,
+  lineAdjustmentSchema,
+  orderNoteSchema,
+  refundRequestSchema,
+  paymentRequestSchema,
+  registerCloseRequestSchema,
+  ticketIssueRequestSchema,
+  cupReturnRequestSchema,
+  cancelRequestSchema,
+  itemCompletionRequestSchema,
+  optionSelectionSchema,
+  OrderStatus,
+  type Coupon,
+  type MenuItem,
+  type OrderEventType,
+  type OrderItem,
+  type Payment,
+  type PaymentMethod,
+  type SelectedOption,
+  type Ticket
 } from "@shared/schema";
+import { priceOrder, quotePrice, type OrderPricingLine } from "@shared/pricing";
+import { hasNewAdjustments, toAdjustmentColumns } from "@shared/adjustment";
+import { acceptsRefund, calculateRefund, refundableQuantities } from "@shared/refund";
+import { calculatePayment, changesPricedLines, paymentBalance, TERMINAL_PAYMENT_METHODS } from "@shared/payment";
+import { closeRegister, isInPeriod, summarizeRegister } from "@shared/registerClose";
+import { checkCoupon, normalizeCouponCode, toCouponTerms, type CouponRejection } from "@shared/coupon";
+import { checkTicket, generateTicketCode, normalizeTicketCode, type TicketRejection } from "@shared/ticket";
+import { CUP_DEPOSIT, isCupDepositItem, summarizeCups, withCupDeposit } from "@shared/deposit";
+import {
+  acceptsItemProgress,
+  canTransition,
+  isCancellable,
+  isEditableStatus,
+  isKitchenLine,
+  progressTransitions
+} from "@shared/orderStatus";
+import { actorFromHeaders, orderSnapshot } from "@shared/orderEvent";
+import { isAdminRequest } from "@shared/admin";
+import { matchesStoredOptions, resolveOptions, type OptionRejection } from "@shared/menuOption";
+
+// 注文明細の入力（メニューIDと数量・オプション。コンプ・価格変更・明細ごとのメモがある場合はその内容）
+const orderItemsInputSchema = z.array(
+  z.object({
+    menuItemId: z.number(),
+    quantity: z.number().int().positive(),
+    options: z.array(optionSelectionSchema).default([]),
+    adjustment: lineAdjustmentSchema.nullish(),
+    note: orderNoteSchema
+  })
+);
+
+type ResolvedLine = OrderPricingLine & { menuItem: MenuItem; options: SelectedOption[]; note?: string | null };
+// 保存する明細。オプションはメニューの名前・追加料金を付けたもの
+type ResolvedItem = Omit<z.infer<typeof orderItemsInputSchema>[number], "options"> & { options: SelectedOption[] };
+
+// メニューIDとオプションを解決して料金計算用の明細にする。
+// リユースカップのデポジットはドリンクの杯数に合わせるので、保存する明細は items（lines と同じ順序）を使う。
+// 編集時は existingItems に保存済みの明細を渡す（同じオプションのまま送り直した明細は必須の項目を確かめない）
+async function resolvePricingLines(
+  items: z.infer<typeof orderItemsInputSchema>,
+  existingItems: Array<Pick<OrderItem, "menuItemId" | "options">> = []
+): Promise<
+  | { lines: OrderPricingLine[]; items: ResolvedItem[] }
+  | { unknownMenuItemId: number }
+  | { optionRejection: { menuItemId: number; reason: OptionRejection } }
+> {
+  const resolved: ResolvedLine[] = [];
+  for (const item of items) {
+    const menuItem = await storage.getMenuItemById(item.menuItemId);
+    if (!menuItem) {
+      return { unknownMenuItemId: item.menuItemId };
+    }
+    const optionResult = resolveOptions(menuItem, item.options, {
+      allowMissingRequired: matchesStoredOptions(item, existingItems)
+    });
+    if ("rejection" in optionResult) {
+      return { optionRejection: { menuItemId: item.menuItemId, reason: optionResult.rejection } };
+    }
+    resolved.push({
+      menuItem,
+      quantity: item.quantity,
+      options: optionResult.options,
+      adjustment: item.adjustment,
+      note: item.note
+    });
+  }
+  const depositItem = CUP_DEPOSIT.enabled ? await storage.getMenuItemById(CUP_DEPOSIT.menuItemId) : undefined;
+  const lines = depositItem
+    ? withCupDeposit<ResolvedLine>(resolved, (quantity) => ({ menuItem: depositItem, quantity, options: [] }))
+    : resolved;
+  return {
+    lines,
+    items: lines.map((line) => ({
+      menuItemId: line.menuItem.id,
+      quantity: line.quantity,
+      options: line.options,
+      adjustment: line.adjustment,
+      note: line.note ?? null
+    }))
+  };
+}
+
+// クーポンコードを解決して利用できるか確認する。コードが無ければ coupon も undefined
+async function resolveCoupon(
+  code: string | undefined
+): Promise<{ coupon?: Coupon } | { rejection: CouponRejection }> {
+  if (!code) return {};
+  const coupon = await storage.getCouponByCode(normalizeCouponCode(code));
+  const rejection = checkCoupon(coupon, coupon ? await storage.countCouponRedemptions(coupon.id) : 0);
+  if (rejection) return { rejection };
+  return { coupon };
+}
+
+// 前売りチケットのコードを解決して引き換えられるか確認する。コードが無ければ ticket も undefined
+async function resolveTicket(
+  code: string | undefined
+): Promise<{ ticket?: Ticket } | { rejection: TicketRejection }> {
+  if (!code) return {};
+  const ticket = await storage.getTicketByCode(normalizeTicketCode(code));
+  const rejection = checkTicket(ticket);
+  if (rejection) return { rejection };
+  return { ticket };
+}
+
+// 注文の変更履歴を残す。変更した端末・担当者はリクエストヘッダーから取る
+async function recordOrderEvent(
+  req: Request,
+  orderId: number,
+  type: OrderEventType,
+  oldValue: Record<string, unknown> | null,
+  newValue: Record<string, unknown> | null
+) {
+  await storage.createOrderEvent({ orderId, type, oldValue, newValue, ...actorFromHeaders(req.headers) });
+}
+
+// 明細のチェックに合わせて注文のステータスを進め、変更履歴を残す
+async function applyItemProgress(
+  req: Request,
+  orderId: number,
+  status: OrderStatus,
+  lines: Array<Pick<OrderItem, "quantity" | "completedQuantity">>
+) {
+  for (const next of progressTransitions(status, lines)) {
+    await storage.updateOrderStatus(orderId, next);
+    await recordOrderEvent(req, orderId, "status-changed", { status }, { status: next });
+    status = next;
+  }
+}
+
+// 完了にした注文は明細のチェックもすべて済んだものとして記録する（厨房カードの表示と合わせる）
+async function completeKitchenLines(orderId: number) {
+  const order = await storage.getOrderWithItems(orderId);
+  for (const item of order?.items.filter(isKitchenLine) ?? []) {
+    if (item.completedQuantity < item.quantity) {
+      await storage.updateOrderItemCompletedQuantity(item.id, item.quantity);
+    }
+  }
+}
+
+// 現金以外の返金は、その支払方法で決済端末を通した取引を返金額まで取り消す。
+// 端末で取り消せなかった場合は false（返金は記録しない）。端末を通していない支払いの分は手作業で返す
+async function refundCharges(payments: Payment[], method: PaymentMethod, amount: number): Promise<boolean> {
+  let remaining = amount;
+  for (const payment of payments) {
+    if (remaining <= 0) break;
+    if (payment.method !== method || !payment.providerChargeId) continue;
+    const charge = await paymentProvider.getCharge(payment.providerChargeId);
+    if (!charge) return false;
+    const refundable = Math.min(charge.amount - charge.refundedAmount, remaining);
+    if (refundable <= 0) continue;
+    if (!(await paymentProvider.refundCharge(charge.id, refundable))) return false;
+    remaining -= refundable;
+  }
+  return true;
+}
+
+// 前回のレジ締め以降の売上・支払い・返金を集計する
+async function summarizeCurrentPeriod() {
+  const periodStart = (await storage.getLatestRegisterClose())?.closedAt ?? null;
+  // 取消の注文は売上に含めず、支払いはお客様に返したものとして扱う
+  const orders = (await storage.getAllOrdersWithItems()).filter((order) => order.status !== "cancelled");
+  return summarizeRegister(
+    {
+      orders: orders.filter((order) => isInPeriod(order.createdAt, periodStart)),
+      payments: orders.flatMap((order) => order.payments).filter((payment) => isInPeriod(payment.createdAt, periodStart)),
+      refunds: orders.flatMap((order) => order.refunds).filter((refund) => isInPeriod(refund.createdAt, periodStart)),
+      cupReturns: (await storage.getAllCupReturns()).filter((cupReturn) => isInPeriod(cupReturn.createdAt, periodStart))
+    },
+    periodStart
+  );
+}
+
+// リユースカップの貸出・返却の状況（イベント開始からの累計）
+async function summarizeCupsOut() {
+  // 取消の注文ではカップを貸し出していない
+  const orders = (await storage.getAllOrdersWithItems()).filter((order) => order.status !== "cancelled");
+  const depositItem = await storage.getMenuItemById(CUP_DEPOSIT.menuItemId);
+  return summarizeCups(
+    {
+      depositLines: orders.flatMap((order) => {
+        const remaining = refundableQuantities(order);
+        return order.items
+          .filter((item) => isCupDepositItem(item.menuItem))
+          .map((item) => ({ quantity: item.quantity, refundedQuantity: item.quantity - (remaining.get(item.id) ?? 0) }));
+      }),
+      orders,
+      cupReturns: await storage.getAllCupReturns()
+    },
+    depositItem?.price ?? 0
+  );
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Menu Items Routes
@@ -51,6 +264,194 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Coupon Routes
+  app.get("/api/coupons", async (req: Request, res: Response) => {
+    try {
+      const coupons = await storage.getAllCoupons();
+      res.json(coupons);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get coupons" });
+    }
+  });
+
+  // クーポンの登録（管理者のみ）。値引き額を自由に決められるため、レジ端末からは登録させない
+  app.post("/api/coupons", async (req: Request, res: Response) => {
+    try {
+      if (!isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required" });
+      }
+
+      const validatedData = insertCouponSchema.parse(req.body);
+      if (await storage.getCouponByCode(validatedData.code)) {
+        return res.status(409).json({ message: "Coupon code already exists" });
+      }
+      const coupon = await storage.createCoupon(validatedData);
+      res.status(201).json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coupon data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create coupon" });
+    }
+  });
+
+  // Ticket Routes
+  app.get("/api/tickets", async (req: Request, res: Response) => {
+    try {
+      const tickets = await storage.getAllTickets();
+      res.json(tickets.reverse());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get tickets" });
+    }
+  });
+
+  // 前売りチケットの発行（管理者のみ）。価格を自由に決められるため、レジ端末からは発行させない
+  app.post("/api/tickets", async (req: Request, res: Response) => {
+    try {
+      if (!isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required" });
+      }
+
+      const { count, drinks, price, validUntil } = ticketIssueRequestSchema.parse(req.body);
+      const tickets: Ticket[] = [];
+      while (tickets.length < count) {
+        const code = generateTicketCode();
+        if (await storage.getTicketByCode(code)) continue;
+        tickets.push(await storage.createTicket({
+          code,
+          drinks,
+          remainingDrinks: drinks,
+          price,
+          validUntil: validUntil ?? null
+        }));
+      }
+      res.status(201).json(tickets);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ticket data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to issue tickets" });
+    }
+  });
+
+  app.get("/api/tickets/:code", async (req: Request, res: Response) => {
+    try {
+      const ticket = await storage.getTicketByCode(normalizeTicketCode(req.params.code));
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      res.json(ticket);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get ticket" });
+    }
+  });
+
+  // Cup Deposit Routes
+  app.get("/api/cups", async (req: Request, res: Response) => {
+    try {
+      res.json(await summarizeCupsOut());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to summarize cups" });
+    }
+  });
+
+  // カップ返却。返却された数のデポジットを現金で返す
+  app.post("/api/cup-returns", async (req: Request, res: Response) => {
+    try {
+      const { cups } = cupReturnRequestSchema.parse(req.body);
+      const summary = await summarizeCupsOut();
+      if (!summary.enabled) {
+        return res.status(422).json({ message: "Cup return not possible", reason: "disabled" });
+      }
+      if (cups > summary.cupsOutstanding) {
+        return res.status(422).json({ message: "Cup return not possible", reason: "exceeds-outstanding" });
+      }
+
+      const cupReturn = await storage.createCupReturn({ cups, amount: -cups * summary.depositPrice });
+      res.status(201).json(cupReturn);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cup return data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to return cups" });
+    }
+  });
+
+  // Pricing Routes
+  app.post("/api/pricing/quote", async (req: Request, res: Response) => {
+    try {
+      const quoteSchema = z.object({
+        items: orderItemsInputSchema,
+        couponCode: z.string().optional(),
+        ticketCode: z.string().optional()
+      });
+      const { items, couponCode, ticketCode } = quoteSchema.parse(req.body);
+
+      const resolved = await resolvePricingLines(items);
+      if ("unknownMenuItemId" in resolved) {
+        return res.status(400).json({ message: `Unknown menu item: ${resolved.unknownMenuItemId}` });
+      }
+      if ("optionRejection" in resolved) {
+        return res.status(400).json({
+          message: `Invalid options for menu item: ${resolved.optionRejection.menuItemId}`,
+          reason: resolved.optionRejection.reason
+        });
+      }
+      const couponResult = await resolveCoupon(couponCode);
+      if ("rejection" in couponResult) {
+        return res.status(422).json({ message: "Coupon not applicable", reason: couponResult.rejection });
+      }
+      const ticketResult = await resolveTicket(ticketCode);
+      if ("rejection" in ticketResult) {
+        return res.status(422).json({ message: "Ticket not applicable", reason: ticketResult.rejection });
+      }
+
+      res.json(quotePrice(resolved.lines, {
+        coupon: couponResult.coupon && toCouponTerms(couponResult.coupon),
+        ticketDrinks: ticketResult.ticket?.remainingDrinks
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to calculate quote" });
+    }
+  });
+
+  // Register Close Routes
+  app.get("/api/register-closes", async (req: Request, res: Response) => {
+    try {
+      const registerCloses = await storage.getAllRegisterCloses();
+      res.json(registerCloses.reverse());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get register closes" });
+    }
+  });
+
+  app.get("/api/register-closes/current", async (req: Request, res: Response) => {
+    try {
+      res.json(await summarizeCurrentPeriod());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to summarize register" });
+    }
+  });
+
+  app.post("/api/register-closes", async (req: Request, res: Response) => {
+    try {
+      const closeRequest = registerCloseRequestSchema.parse(req.body);
+      // 想定額はクライアントの表示値ではなく締めた時点の記録から計算する
+      const registerClose = await storage.createRegisterClose(
+        closeRegister(await summarizeCurrentPeriod(), closeRequest)
+      );
+      res.status(201).json(registerClose);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid register close data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to close register" });
+    }
+  });
+
   // Order Routes
   app.get("/api/orders", async (req: Request, res: Response) => {
     try {
@@ -95,25 +496,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 注文の変更履歴（古い順）。削除した注文の履歴も返す
+  app.get("/api/orders/:id/history", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+
+      const events = await storage.getOrderEventsByOrderId(id);
+      if (events.length === 0 && !(await storage.getOrderById(id))) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      res.json(events.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get order history" });
+    }
+  });
+
   app.post("/api/orders", async (req: Request, res: Response) => {
     try {
-      const orderData = insertOrderSchema.parse(req.body);
-      const order = await storage.createOrder(orderData);
-      
-      // Create order items if they are included
-      const items = req.body.items;
-      if (Array.isArray(items) && items.length > 0) {
-        for (const item of items) {
-          const orderItemData = insertOrderItemSchema.parse({
-            ...item,
-            orderId: order.id
-          });
-          await storage.createOrderItem(orderItemData);
+      // 合計金額はサーバー側で再計算する。クライアントの送信値は照合にのみ使う
+      const createOrderSchema = insertOrderSchema.extend({
+        totalAmount: z.number().int().optional(),
+        items: orderItemsInputSchema.default([]),
+        note: orderNoteSchema,
+        couponCode: z.string().optional(),
+        ticketCode: z.string().optional()
+      });
+      const {
+        items,
+        couponCode,
+        ticketCode,
+        totalAmount: submittedTotalAmount,
+        ...orderData
+      } = createOrderSchema.parse(req.body);
+
+      const resolved = await resolvePricingLines(items);
+      if ("unknownMenuItemId" in resolved) {
+        return res.status(400).json({ message: `Unknown menu item: ${resolved.unknownMenuItemId}` });
+      }
+      if ("optionRejection" in resolved) {
+        return res.status(400).json({
+          message: `Invalid options for menu item: ${resolved.optionRejection.menuItemId}`,
+          reason: resolved.optionRejection.reason
+        });
+      }
+      // コンプ・価格変更は承認者の名前だけでは受け付けず、管理者トークンを確かめる
+      if (hasNewAdjustments(items) && !isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required for adjustments" });
+      }
+      const couponResult = await resolveCoupon(couponCode);
+      if ("rejection" in couponResult) {
+        return res.status(422).json({ message: "Coupon not applicable", reason: couponResult.rejection });
+      }
+      const { coupon } = couponResult;
+      const ticketResult = await resolveTicket(ticketCode);
+      if ("rejection" in ticketResult) {
+        return res.status(422).json({ message: "Ticket not applicable", reason: ticketResult.rejection });
+      }
+      const { ticket } = ticketResult;
+      const { totalAmount, linePrices, originalPrices, couponDiscount, ticketDrinks, ...amounts } = priceOrder(resolved.lines, {
+        coupon: coupon && toCouponTerms(coupon),
+        ticketDrinks: ticket?.remainingDrinks
+      });
+
+      // 古い画面や改ざんされたリクエストの金額で売上を記録しない
+      if (submittedTotalAmount !== undefined && submittedTotalAmount !== totalAmount) {
+        return res.status(409).json({
+          message: "Total amount mismatch",
+          submittedTotalAmount,
+          expectedTotalAmount: totalAmount
+        });
+      }
+
+      const order = await storage.createOrder({ ...orderData, totalAmount, ...amounts });
+
+      // クーポンの利用回数は記録と同時に確かめる。同時に使われて上限を超えた場合は注文を取りやめる
+      if (coupon) {
+        const redemption = await storage.createCouponRedemption(
+          { couponId: coupon.id, orderId: order.id, discountAmount: couponDiscount },
+          coupon.usageLimit
+        );
+        if (!redemption) {
+          await storage.deleteOrder(order.id);
+          return res.status(422).json({ message: "Coupon not applicable", reason: "usage-limit" });
+        }
+      }
+
+      // 前売りチケットから引き換えた杯数を差し引く。同時に引き換えられて足りなくなった場合は注文を取りやめる
+      if (ticket && ticketDrinks > 0) {
+        const redemption = await storage.redeemTicket({
+          ticketId: ticket.id,
+          orderId: order.id,
+          drinks: ticketDrinks,
+          amount: amounts.ticketAmount
+        });
+        if (!redemption) {
+          await storage.deleteCouponRedemptionByOrderId(order.id);
+          await storage.deleteOrder(order.id);
+          return res.status(422).json({ message: "Ticket not applicable", reason: "used-up" });
         }
       }
       
+      // Create order items with the set price allocated to each line
+      for (let index = 0; index < resolved.items.length; index++) {
+        const { adjustment, ...item } = resolved.items[index];
+        const orderItemData = insertOrderItemSchema.parse({
+          ...item,
+          ...toAdjustmentColumns(adjustment, originalPrices[index]),
+          price: linePrices[index],
+          orderId: order.id
+        });
+        await storage.createOrderItem(orderItemData);
+      }
+
       // Return the complete order with items
       const orderWithItems = await storage.getOrderWithItems(order.id);
+      if (orderWithItems) {
+        await recordOrderEvent(req, order.id, "created", null, orderSnapshot(orderWithItems));
+      }
+
+      // バーのプリンターに伝票を出す。印刷に失敗しても注文は受け付ける
+      if (autoPrintOrders && printer && orderWithItems) {
+        printer
+          .send(renderKitchenTicket(orderWithItems, printerColumns))
+          .catch((error) => console.error("Failed to print kitchen ticket:", error));
+      }
+
       res.status(201).json(orderWithItems);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -132,11 +643,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const statusSchema = z.object({ status: OrderStatus });
       const { status } = statusSchema.parse(req.body);
+      if (status === "cancelled") {
+        return res.status(400).json({ message: "Cancel orders with POST /api/orders/:id/cancel" });
+      }
+
+      const order = await storage.getOrderById(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!canTransition(order.status as OrderStatus, status)) {
+        return res.status(409).json({ message: "Invalid status transition", from: order.status, to: status });
+      }
       
       const updatedOrder = await storage.updateOrderStatus(id, status);
       if (!updatedOrder) {
         return res.status(404).json({ message: "Order not found" });
       }
+      await recordOrderEvent(req, id, "status-changed", { status: order.status }, { status });
+      if (status === "ready") {
+        await completeKitchenLines(id);
+      }
       
       res.json(updatedOrder);
     } catch (error) {
@@ -147,6 +673,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 厨房カードで明細ごと（1杯ごと）に作り終えた数を記録する。
+  // すべての明細が済めば注文は自動で完了になる
+  app.patch("/api/orders/:id/items/:itemId", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const itemId = parseInt(req.params.itemId);
+      if (isNaN(id) || isNaN(itemId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+
+      const { completedQuantity } = itemCompletionRequestSchema.parse(req.body);
+      const order = await storage.getOrderWithItems(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const item = order.items.find((orderItem) => orderItem.id === itemId);
+      if (!item) {
+        return res.status(404).json({ message: "Order item not found" });
+      }
+      if (!isKitchenLine(item)) {
+        return res.status(400).json({ message: "Item is not prepared in the kitchen" });
+      }
+      if (completedQuantity > item.quantity) {
+        return res.status(400).json({ message: "Completed quantity exceeds quantity" });
+      }
+      if (!acceptsItemProgress(order.status as OrderStatus)) {
+        return res.status(409).json({ message: "Order is not in progress", status: order.status });
+      }
+
+      await storage.updateOrderItemCompletedQuantity(itemId, completedQuantity);
+
+      const lines = order.items
+        .filter(isKitchenLine)
+        .map((line) => (line.id === itemId ? { ...line, completedQuantity } : line));
+      await applyItemProgress(req, id, order.status as OrderStatus, lines);
+
+      res.json(await storage.getOrderWithItems(id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid item status", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update item status" });
+    }
+  });
+
+  // 伝票・レシートの印刷（再印刷にも使う）
+  app.post("/api/orders/:id/print", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+
+      const printSchema = z.object({ document: z.enum(["kitchen-ticket", "receipt"]) });
+      const { document } = printSchema.parse(req.body);
+
+      if (!printer) {
+        return res.status(503).json({ message: "Printer not configured" });
+      }
+
+      const order = await storage.getOrderWithItems(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const data = document === "kitchen-ticket"
+        ? renderKitchenTicket(order, printerColumns)
+        : renderReceipt(order, printerColumns);
+      try {
+        await printer.send(data);
+      } catch (error) {
+        console.error("Failed to print:", error);
+        return res.status(502).json({ message: "Printer not reachable", printer: printer.description });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid print request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to print" });
+    }
+  });
+
+  // Payment Routes
+  app.get("/api/orders/:id/payments", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const payments = await storage.getPaymentsByOrderId(id);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get payments" });
+    }
+  });
+
+  app.post("/api/orders/:id/payments", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const paymentRequest = paymentRequestSchema.parse(req.body);
+      const order = await storage.getOrderById(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.status === "cancelled") {
+        return res.status(409).json({ message: "Order is cancelled" });
+      }
+      
+      // 支払額はクライアントの送信値ではなく注文の残額から決める
+      const payment = calculatePayment(order.totalAmount, await storage.getPaymentsByOrderId(id), paymentRequest);
+      if ("rejection" in payment) {
+        return res.status(422).json({ message: "Payment not possible", reason: payment.rejection });
+      }
+      
+      const created = await storage.createPayment({ orderId: id, ...payment });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create payment" });
+    }
+  });
+
+  // 決済端末（QR決済・カード）での支払い。結果は非同期に確定するので GET でポーリングする
+  app.post("/api/orders/:id/charges", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const chargeRequest = paymentRequestSchema.parse(req.body);
+      if (!TERMINAL_PAYMENT_METHODS.includes(chargeRequest.method)) {
+        return res.status(400).json({ message: "Payment method does not use a terminal" });
+      }
+      const order = await storage.getOrderById(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.status === "cancelled") {
+        return res.status(409).json({ message: "Order is cancelled" });
+      }
+      
+      const payment = calculatePayment(order.totalAmount, await storage.getPaymentsByOrderId(id), chargeRequest);
+      if ("rejection" in payment) {
+        return res.status(422).json({ message: "Payment not possible", reason: payment.rejection });
+      }
+      
+      const charge = await paymentProvider.createCharge({ orderId: id, method: chargeRequest.method, amount: payment.amount });
+      res.status(201).json(charge);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create charge" });
+    }
+  });
+
+  app.get("/api/orders/:id/charges/:chargeId", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const charge = await paymentProvider.getCharge(req.params.chargeId);
+      if (!charge || charge.orderId !== id) {
+        return res.status(404).json({ message: "Charge not found" });
+      }
+      
+      // 承認された決済は支払いとして1回だけ記録する
+      let payment = await storage.getPaymentByProviderChargeId(charge.id);
+      if (charge.status === "approved" && !payment) {
+        // 決済の開始後に別の支払い・編集・取消があり残額を超える場合は、記録せずに端末の決済を取り消す
+        const order = await storage.getOrderById(id);
+        const balance = order && order.status !== "cancelled"
+          ? paymentBalance(order.totalAmount, await storage.getPaymentsByOrderId(id))
+          : 0;
+        if (charge.amount > balance) {
+          const refunded = await paymentProvider.refundCharge(charge.id, charge.amount - charge.refundedAmount);
+          return res.json({ charge: refunded ?? charge, payment: null });
+        }
+        payment = await storage.createPayment({
+          orderId: id,
+          method: charge.method,
+          amount: charge.amount,
+          tenderedAmount: charge.amount,
+          changeAmount: 0,
+          providerChargeId: charge.id
+        });
+      }
+      
+      res.json({ charge, payment: payment ?? null });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get charge" });
+    }
+  });
+
+  // Refund Routes
+  app.get("/api/orders/:id/refunds", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const refunds = await storage.getRefundsByOrderId(id);
+      res.json(refunds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get refunds" });
+    }
+  });
+
+  app.post("/api/orders/:id/refunds", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const { reason, method, lines } = refundRequestSchema.parse(req.body);
+      const order = await storage.getOrderWithItems(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      // 支払いのない提供前の注文は返金ではなく編集・取消で対応する
+      if (!acceptsRefund(order.status as OrderStatus, order.payments)) {
+        return res.status(409).json({ message: "Order is not completed" });
+      }
+      
+      // 明細を指定しない場合は未返金の明細をすべて返金する
+      const refund = calculateRefund(order, lines);
+      if ("rejection" in refund) {
+        return res.status(422).json({ message: "Refund not possible", reason: refund.rejection });
+      }
+      
+      const { lines: refundLines, ...amounts } = refund;
+      // 返金額はマイナスで記録する
+      if (method !== "cash" && !(await refundCharges(order.payments, method, -amounts.amount))) {
+        return res.status(422).json({ message: "Refund not possible", reason: "charge-refund-failed" });
+      }
+      const created = await storage.createRefund({ orderId: id, reason, method, ...amounts }, refundLines);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refund data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create refund" });
+    }
+  });
+
   app.patch("/api/orders/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -155,34 +940,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // バリデーションスキーマを設定
+      // 注文番号はサーバーが振ったものから変えない
       const updateOrderSchema = z.object({
-        orderNumber: z.string(),
         status: OrderStatus,
-        items: z.array(
-          z.object({
-            menuItemId: z.number(),
-            quantity: z.number().positive()
-          })
-        )
+        // 省略した場合は今のメモを残す
+        note: orderNoteSchema.optional(),
+        items: orderItemsInputSchema
       });
       
       const orderData = updateOrderSchema.parse(req.body);
+
+      const existingOrder = await storage.getOrderWithItems(id);
+      if (!existingOrder) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (existingOrder.status === "cancelled") {
+        return res.status(409).json({ message: "Order is cancelled" });
+      }
+      if (orderData.status === "cancelled") {
+        return res.status(400).json({ message: "Cancel orders with POST /api/orders/:id/cancel" });
+      }
+      // 提供後の注文は明細を作り直すと支払い・返金と合わなくなるため編集できない（返金で対応する）
+      if (!isEditableStatus(existingOrder.status as OrderStatus)) {
+        return res.status(409).json({ message: "Order is not editable", status: existingOrder.status });
+      }
+      // 編集でもステータスは決められた順にしか変えられない
+      if (orderData.status !== existingOrder.status && !canTransition(existingOrder.status as OrderStatus, orderData.status)) {
+        return res.status(409).json({ message: "Invalid status transition", from: existingOrder.status, to: orderData.status });
+      }
+
+      // 返金済みの注文は明細を作り直すと返金との対応が崩れるため編集できない
+      if (existingOrder.refunds.length > 0) {
+        return res.status(409).json({ message: "Order has refunds" });
+      }
+      // 注文時に承認済みのコンプ・価格変更はそのまま送り直せる。新たに付けたもの・数量を変えたものは管理者の承認が要る
+      if (hasNewAdjustments(orderData.items, existingOrder.items) && !isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required for adjustments" });
+      }
+
+      const resolved = await resolvePricingLines(orderData.items, existingOrder.items);
+      if ("unknownMenuItemId" in resolved) {
+        return res.status(400).json({ message: `Unknown menu item: ${resolved.unknownMenuItemId}` });
+      }
+      if ("optionRejection" in resolved) {
+        return res.status(400).json({
+          message: `Invalid options for menu item: ${resolved.optionRejection.menuItemId}`,
+          reason: resolved.optionRejection.reason
+        });
+      }
+      
+      // 支払いのある注文は合計が変わると受け取った額とずれるため、メモ・ステータス以外は編集できない
+      if (existingOrder.payments.length > 0 && changesPricedLines(resolved.items, existingOrder.items)) {
+        return res.status(409).json({ message: "Order has payments" });
+      }
       
       // 注文と注文商品を更新
       const updatedOrder = await storage.updateOrderWithItems(
         id, 
         { 
-          orderNumber: orderData.orderNumber, 
-          status: orderData.status 
+          status: orderData.status,
+          note: orderData.note === undefined ? existingOrder.note : orderData.note
         },
-        orderData.items
+        resolved.items
       );
       
       if (!updatedOrder) {
         return res.status(404).json({ message: "Order not found" });
       }
+      await recordOrderEvent(req, id, "items-edited", orderSnapshot(existingOrder), orderSnapshot(updatedOrder));
+
+      // 編集で完了にした場合はすべての明細を済みにする。それ以外は引き継いだチェックと新しい明細に合わせて
+      // ステータスを進める（明細を足せば完了から調理中に戻る）
+      if (orderData.status === "ready" && existingOrder.status !== "ready") {
+        await completeKitchenLines(id);
+      } else if (acceptsItemProgress(updatedOrder.status as OrderStatus)) {
+        await applyItemProgress(req, id, updatedOrder.status as OrderStatus, updatedOrder.items.filter(isKitchenLine));
+      }
       
-      res.json(updatedOrder);
+      res.json(await storage.getOrderWithItems(id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid order data", errors: error.errors });
@@ -192,21 +1027,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 注文の取消。注文は理由と日時を付けて残し、クーポン・前売りチケットの利用は取り消す
+  app.post("/api/orders/:id/cancel", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+
+      const { reason } = cancelRequestSchema.parse(req.body);
+      const order = await storage.getOrderWithItems(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!isCancellable(order.status as OrderStatus)) {
+        return res.status(409).json({ message: "Invalid status transition", from: order.status, to: "cancelled" });
+      }
+      // 返金済みの注文を取り消すと返金と二重に差し引かれる
+      if (order.refunds.length > 0) {
+        return res.status(409).json({ message: "Order has refunds" });
+      }
+      // 支払いのある注文を取り消すと受け取った額がレジ締めから消え、決済端末の取引も残る。先に返金で対応する
+      if (order.payments.length > 0) {
+        return res.status(409).json({ message: "Order has payments" });
+      }
+
+      await storage.deleteCouponRedemptionByOrderId(id);
+      await storage.deleteTicketRedemptionByOrderId(id);
+      await storage.cancelOrder(id, reason);
+      await recordOrderEvent(req, id, "cancelled", { status: order.status }, { status: "cancelled", cancelReason: reason });
+
+      res.json(await storage.getOrderWithItems(id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancel data", errors: error.errors });
+      }
+      console.error("Failed to cancel order:", error);
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
+
+  // 注文の完全削除（管理者のみ）。取消済みの注文だけを対象にし、変更履歴は残す
   app.delete("/api/orders/:id", async (req: Request, res: Response) => {
     try {
+      if (!isAdminRequest(req.headers, process.env.ADMIN_TOKEN)) {
+        return res.status(403).json({ message: "Admin token required" });
+      }
+
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
       
-      // まず注文アイテムを削除
+      const order = await storage.getOrderWithItems(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.status !== "cancelled") {
+        return res.status(409).json({ message: "Order is not cancelled" });
+      }
+      // 返金の記録がある注文は売上の監査のため削除しない
+      if (order.refunds.length > 0) {
+        return res.status(409).json({ message: "Order has refunds" });
+      }
+      
+      // まず注文アイテム・クーポン利用記録・支払いを削除し、チケットの杯数を戻す
       await storage.deleteOrderItemsByOrderId(id);
+      await storage.deleteCouponRedemptionByOrderId(id);
+      await storage.deleteTicketRedemptionByOrderId(id);
+      await storage.deletePaymentsByOrderId(id);
       
       // 次に注文自体を削除
       const deleted = await storage.deleteOrder(id);
       if (!deleted) {
         return res.status(404).json({ message: "Order not found" });
       }
+      // 削除した注文の履歴は残し、後から内容を確認できるようにする
+      await recordOrderEvent(req, id, "deleted", orderSnapshot(order), null);
       
       res.status(204).end();
     } catch (error) {
@@ -6,8 +6,38 @@ import {
   type OrderItem, 
   type InsertOrderItem, 
   type OrderWithItems,
+  type Coupon,
+  type InsertCoupon,
+  type CouponRedemption,
+  type InsertCouponRedemption,
+  type Ticket,
+  type InsertTicket,
+  type TicketRedemption,
+  type InsertTicketRedemption,
+  type CupReturn,
+  type InsertCupReturn,
+  type OrderEvent,
+  type InsertOrderEvent,
+  type Payment,
+  type InsertPayment,
+  type RegisterClose,
+  type InsertRegisterClose,
+  type Refund,
+  type InsertRefund,
+  type RefundLine,
+  type InsertRefundLine,
+  type RefundWithLines,
+  type LineAdjustment,
+  type SelectedOption,
+  type CancelReason,
   OrderStatus
 } from "@shared/schema";
+import { getPricingRulesById, priceOrder } from "@shared/pricing";
+import { toAdjustmentColumns } from "@shared/adjustment";
+import { toCouponTerms } from "@shared/coupon";
+import { carryOverCompletedQuantities } from "@shared/orderStatus";
+import { ICE_OPTIONS, STRONG_OPTIONS, STYLE_OPTIONS } from "@shared/menuData";
+import { ORDER_NUMBERING, businessDateOf, formatOrderNumber, orderSequenceKey } from "@shared/orderNumber";
 
 export interface IStorage {
   // Menu Items
@@ -20,23 +50,72 @@ export interface IStorage {
   // Orders
   getAllOrders(): Promise<Order[]>;
   getOrderById(id: number): Promise<Order | undefined>;
-  getOrderByNumber(orderNumber: string): Promise<Order | undefined>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrderStatus(id: number, status: OrderStatus): Promise<Order | undefined>;
+  cancelOrder(id: number, reason: CancelReason): Promise<Order | undefined>;
   deleteOrder(id: number): Promise<boolean>;
   
+  // Order Events
+  getOrderEventsByOrderId(orderId: number): Promise<OrderEvent[]>;
+  createOrderEvent(event: InsertOrderEvent): Promise<OrderEvent>;
+  
   // Order Items
   getOrderItemsByOrderId(orderId: number): Promise<OrderItem[]>;
   createOrderItem(item: InsertOrderItem): Promise<OrderItem>;
+  updateOrderItemCompletedQuantity(id: number, completedQuantity: number): Promise<OrderItem | undefined>;
   deleteOrderItemsByOrderId(orderId: number): Promise<boolean>;
   
+  // Coupons
+  getAllCoupons(): Promise<Coupon[]>;
+  getCouponById(id: number): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  countCouponRedemptions(couponId: number): Promise<number>;
+  getCouponRedemptionByOrderId(orderId: number): Promise<CouponRedemption | undefined>;
+  // 利用回数が usageLimit に達している場合は記録せず undefined を返す
+  createCouponRedemption(
+    redemption: InsertCouponRedemption,
+    usageLimit: number | null
+  ): Promise<CouponRedemption | undefined>;
+  deleteCouponRedemptionByOrderId(orderId: number): Promise<boolean>;
+  
+  // Tickets
+  getAllTickets(): Promise<Ticket[]>;
+  getTicketById(id: number): Promise<Ticket | undefined>;
+  getTicketByCode(code: string): Promise<Ticket | undefined>;
+  createTicket(ticket: InsertTicket): Promise<Ticket>;
+  getTicketRedemptionByOrderId(orderId: number): Promise<TicketRedemption | undefined>;
+  // 引き換えた杯数をチケットの残り杯数から差し引く。残り杯数が足りない場合は記録せず undefined
+  redeemTicket(redemption: InsertTicketRedemption): Promise<TicketRedemption | undefined>;
+  // 引き換えを取り消し、杯数をチケットに戻す
+  deleteTicketRedemptionByOrderId(orderId: number): Promise<boolean>;
+  
+  // Cup Returns
+  getAllCupReturns(): Promise<CupReturn[]>;
+  createCupReturn(cupReturn: InsertCupReturn): Promise<CupReturn>;
+  
+  // Payments
+  getPaymentsByOrderId(orderId: number): Promise<Payment[]>;
+  getPaymentByProviderChargeId(chargeId: string): Promise<Payment | undefined>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  deletePaymentsByOrderId(orderId: number): Promise<boolean>;
+  
+  // Refunds
+  getRefundsByOrderId(orderId: number): Promise<RefundWithLines[]>;
+  createRefund(refund: InsertRefund, lines: Omit<InsertRefundLine, "refundId">[]): Promise<RefundWithLines>;
+  
+  // Register Closes
+  getAllRegisterCloses(): Promise<RegisterClose[]>;
+  getLatestRegisterClose(): Promise<RegisterClose | undefined>;
+  createRegisterClose(registerClose: InsertRegisterClose): Promise<RegisterClose>;
+  
   // Combined Operations
   getOrderWithItems(orderId: number): Promise<OrderWithItems | undefined>;
   getAllOrdersWithItems(): Promise<OrderWithItems[]>;
   updateOrderWithItems(
     id: number, 
-    orderData: { orderNumber: string; status: OrderStatus; }, 
-    items: Array<{ menuItemId: number; quantity: number; }>
+    orderData: { status: OrderStatus; note: string | null; }, 
+    items: Array<{ menuItemId: number; quantity: number; options?: SelectedOption[]; adjustment?: LineAdjustment | null; note?: string | null; }>
   ): Promise<OrderWithItems | undefined>;
 }
 
@@ -44,19 +123,60 @@ export class MemStorage implements IStorage {
   private menuItems: Map<number, MenuItem>;
   private orders: Map<number, Order>;
   private orderItems: Map<number, OrderItem>;
+  private orderEvents: Map<number, OrderEvent>;
+  private coupons: Map<number, Coupon>;
+  private couponRedemptions: Map<number, CouponRedemption>;
+  private tickets: Map<number, Ticket>;
+  private ticketRedemptions: Map<number, TicketRedemption>;
+  private cupReturns: Map<number, CupReturn>;
+  private payments: Map<number, Payment>;
+  private refunds: Map<number, Refund>;
+  private registerCloses: Map<number, RegisterClose>;
+  private refundLines: Map<number, RefundLine>;
   private menuItemIdCounter: number;
   private orderIdCounter: number;
   private orderItemIdCounter: number;
-  private orderNumberCounter: number;
+  private orderEventIdCounter: number;
+  private couponIdCounter: number;
+  private couponRedemptionIdCounter: number;
+  private ticketIdCounter: number;
+  private ticketRedemptionIdCounter: number;
+  private cupReturnIdCounter: number;
+  private paymentIdCounter: number;
+  private refundIdCounter: number;
+  private registerCloseIdCounter: number;
+  private refundLineIdCounter: number;
+  // 連番を数える単位（営業日）→ 最後に振った番号
+  private orderNumberSequences: Map<string, number>;
 
   constructor() {
     this.menuItems = new Map();
     this.orders = new Map();
     this.orderItems = new Map();
+    this.orderEvents = new Map();
+    this.coupons = new Map();
+    this.couponRedemptions = new Map();
+    this.tickets = new Map();
+    this.ticketRedemptions = new Map();
+    this.cupReturns = new Map();
+    this.payments = new Map();
+    this.refunds = new Map();
+    this.registerCloses = new Map();
+    this.refundLines = new Map();
     this.menuItemIdCounter = 1;
     this.orderIdCounter = 1;
     this.orderItemIdCounter = 1;
-    this.orderNumberCounter = 1000; // Start order numbers at 1000
+    this.orderEventIdCounter = 1;
+    this.couponIdCounter = 1;
+    this.couponRedemptionIdCounter = 1;
+    this.ticketIdCounter = 1;
+    this.ticketRedemptionIdCounter = 1;
+    this.cupReturnIdCounter = 1;
+    this.paymentIdCounter = 1;
+    this.refundIdCounter = 1;
+    this.registerCloseIdCounter = 1;
+    this.refundLineIdCounter = 1;
+    this.orderNumberSequences = new Map();
     
     // Initialize with some default menu items
     this.initializeMenuItems();
@@ -69,42 +189,63 @@ export class MemStorage implements IStorage {
         price: 75000, // ¥750
         imageUrl: "",
         category: "お酒",
+        taxRate: 10,
+        optionGroups: [ICE_OPTIONS, STRONG_OPTIONS],
       },
       {
         name: "太幸ワイン",
         price: 80000, // ¥800
         imageUrl: "",
         category: "お酒",
+        taxRate: 10,
       },
       {
         name: "太幸ワインサングリア",
         price: 85000, // ¥850
         imageUrl: "",
         category: "お酒",
+        taxRate: 10,
+        optionGroups: [ICE_OPTIONS],
       },
       {
         name: "ブラッドオレンジ梅酒",
         price: 78000, // ¥780
         imageUrl: "",
         category: "お酒",
+        taxRate: 10,
+        optionGroups: [STYLE_OPTIONS, ICE_OPTIONS, STRONG_OPTIONS],
       },
       {
         name: "カシス河内晩柑",
         price: 78000, // ¥780
         imageUrl: "",
         category: "お酒",
+        taxRate: 10,
+        optionGroups: [STYLE_OPTIONS, ICE_OPTIONS],
       },
       {
         name: "レモン酎ハイ",
         price: 70000, // ¥700
         imageUrl: "",
         category: "お酒",
+        taxRate: 10,
+        optionGroups: [ICE_OPTIONS, STRONG_OPTIONS],
       },
       {
         name: "河内晩柑ジュース",
         price: 55000, // ¥550
         imageUrl: "",
         category: "ソフトドリンク",
+        taxRate: 8, // 軽減税率
+        optionGroups: [ICE_OPTIONS],
+      },
+      {
+        name: "リユースカップ",
+        price: 30000, // ¥300（デポジット。消費税の対象外）
+        imageUrl: "",
+        category: "デポジット",
+        taxRate: 10,
+        productType: "deposit",
       },
     ];
 
@@ -122,7 +263,13 @@ export class MemStorage implements IStorage {
 
   async createMenuItem(item: InsertMenuItem): Promise<MenuItem> {
     const id = this.menuItemIdCounter++;
-    const newItem = { ...item, id };
+    const newItem = {
+      ...item,
+      taxRate: item.taxRate ?? 10,
+      productType: item.productType ?? "drink",
+      optionGroups: item.optionGroups ?? [],
+      id
+    };
     this.menuItems.set(id, newItem);
     return newItem;
   }
@@ -149,22 +296,38 @@ export class MemStorage implements IStorage {
     return this.orders.get(id);
   }
 
-  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
-    return Array.from(this.orders.values()).find(
-      (order) => order.orderNumber === orderNumber
-    );
+  // 注文番号は同期的に採番するので、同時に注文が来ても重複しない
+  private nextOrderNumber(businessDate: string): string {
+    const key = orderSequenceKey(businessDate);
+    const last = this.orderNumberSequences.get(key);
+    const sequence = last === undefined ? ORDER_NUMBERING.start : last + 1;
+    this.orderNumberSequences.set(key, sequence);
+    return formatOrderNumber(sequence);
   }
 
   async createOrder(orderData: InsertOrder): Promise<Order> {
     const id = this.orderIdCounter++;
-    const orderNumber = orderData.orderNumber || `#${this.orderNumberCounter++}`;
-    
     const now = new Date();
+    const businessDate = businessDateOf(now);
+    const orderNumber = this.nextOrderNumber(businessDate);
+
     const order: Order = {
+      taxableAmount10: 0,
+      taxAmount10: 0,
+      taxableAmount8: 0,
+      taxAmount8: 0,
+      pricingRuleId: "standard",
+      adjustmentAmount: 0,
       ...orderData,
+      ticketAmount: orderData.ticketAmount ?? 0,
+      depositAmount: orderData.depositAmount ?? 0,
       id,
       orderNumber,
-      status: "in-progress", 
+      businessDate,
+      status: "new",
+      note: orderData.note ?? null,
+      cancelReason: null,
+      cancelledAt: null,
       createdAt: now,
       updatedAt: now
     };
@@ -187,10 +350,41 @@ export class MemStorage implements IStorage {
     return updatedOrder;
   }
 
+  async cancelOrder(id: number, reason: CancelReason): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    const now = new Date();
+    const cancelledOrder = {
+      ...order,
+      status: "cancelled",
+      cancelReason: reason,
+      cancelledAt: now,
+      updatedAt: now
+    };
+
+    this.orders.set(id, cancelledOrder);
+    return cancelledOrder;
+  }
+
   async deleteOrder(id: number): Promise<boolean> {
     return this.orders.delete(id);
   }
 
+  // Order Events Methods
+  async getOrderEventsByOrderId(orderId: number): Promise<OrderEvent[]> {
+    return Array.from(this.orderEvents.values()).filter(
+      (event) => event.orderId === orderId
+    );
+  }
+
+  async createOrderEvent(eventData: InsertOrderEvent): Promise<OrderEvent> {
+    const id = this.orderEventIdCounter++;
+    const event: OrderEvent = { ...eventData, id, createdAt: new Date() };
+    this.orderEvents.set(id, event);
+    return event;
+  }
+
   // Order Items Methods
   async getOrderItemsByOrderId(orderId: number): Promise<OrderItem[]> {
     return Array.from(this.orderItems.values()).filter(
@@ -200,11 +394,30 @@ export class MemStorage implements IStorage {
 
   async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
     const id = this.orderItemIdCounter++;
-    const orderItem = { ...item, id };
+    const orderItem: OrderItem = {
+      ...item,
+      id,
+      adjustmentKind: item.adjustmentKind ?? null,
+      adjustmentReason: item.adjustmentReason ?? null,
+      adjustmentApprovedBy: item.adjustmentApprovedBy ?? null,
+      originalPrice: item.originalPrice ?? null,
+      note: item.note ?? null,
+      options: item.options ?? [],
+      completedQuantity: 0
+    };
     this.orderItems.set(id, orderItem);
     return orderItem;
   }
 
+  async updateOrderItemCompletedQuantity(id: number, completedQuantity: number): Promise<OrderItem | undefined> {
+    const item = this.orderItems.get(id);
+    if (!item) return undefined;
+
+    const updatedItem = { ...item, completedQuantity };
+    this.orderItems.set(id, updatedItem);
+    return updatedItem;
+  }
+
   async deleteOrderItemsByOrderId(orderId: number): Promise<boolean> {
     // Filter out all items that belong to the specified order
     const itemsToKeep = Array.from(this.orderItems.entries()).filter(
@@ -220,6 +433,219 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  // Coupons Methods
+  async getAllCoupons(): Promise<Coupon[]> {
+    return Array.from(this.coupons.values());
+  }
+
+  async getCouponById(id: number): Promise<Coupon | undefined> {
+    return this.coupons.get(id);
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    return Array.from(this.coupons.values()).find(
+      (coupon) => coupon.code === code
+    );
+  }
+
+  async createCoupon(couponData: InsertCoupon): Promise<Coupon> {
+    const id = this.couponIdCounter++;
+    const coupon: Coupon = {
+      ...couponData,
+      id,
+      validFrom: couponData.validFrom ?? null,
+      validUntil: couponData.validUntil ?? null,
+      usageLimit: couponData.usageLimit ?? null,
+      maxDiscountAmount: couponData.maxDiscountAmount ?? null,
+      createdAt: new Date()
+    };
+    this.coupons.set(id, coupon);
+    return coupon;
+  }
+
+  async countCouponRedemptions(couponId: number): Promise<number> {
+    return Array.from(this.couponRedemptions.values()).filter(
+      (redemption) => redemption.couponId === couponId
+    ).length;
+  }
+
+  async getCouponRedemptionByOrderId(orderId: number): Promise<CouponRedemption | undefined> {
+    return Array.from(this.couponRedemptions.values()).find(
+      (redemption) => redemption.orderId === orderId
+    );
+  }
+
+  async createCouponRedemption(
+    redemptionData: InsertCouponRedemption,
+    usageLimit: number | null
+  ): Promise<CouponRedemption | undefined> {
+    // 数えてから記録するまでの間に他の注文が割り込まないよう、await を挟まずに確かめる
+    const redemptionCount = Array.from(this.couponRedemptions.values()).filter(
+      (redemption) => redemption.couponId === redemptionData.couponId
+    ).length;
+    if (usageLimit != null && redemptionCount >= usageLimit) {
+      return undefined;
+    }
+    const id = this.couponRedemptionIdCounter++;
+    const redemption = { ...redemptionData, id, createdAt: new Date() };
+    this.couponRedemptions.set(id, redemption);
+    return redemption;
+  }
+
+  async deleteCouponRedemptionByOrderId(orderId: number): Promise<boolean> {
+    const redemption = await this.getCouponRedemptionByOrderId(orderId);
+    if (!redemption) return false;
+    return this.couponRedemptions.delete(redemption.id);
+  }
+
+  // Tickets Methods
+  async getAllTickets(): Promise<Ticket[]> {
+    return Array.from(this.tickets.values());
+  }
+
+  async getTicketById(id: number): Promise<Ticket | undefined> {
+    return this.tickets.get(id);
+  }
+
+  async getTicketByCode(code: string): Promise<Ticket | undefined> {
+    return Array.from(this.tickets.values()).find(
+      (ticket) => ticket.code === code
+    );
+  }
+
+  async createTicket(ticketData: InsertTicket): Promise<Ticket> {
+    const id = this.ticketIdCounter++;
+    const ticket: Ticket = { ...ticketData, id, createdAt: new Date() };
+    this.tickets.set(id, ticket);
+    return ticket;
+  }
+
+  async getTicketRedemptionByOrderId(orderId: number): Promise<TicketRedemption | undefined> {
+    return Array.from(this.ticketRedemptions.values()).find(
+      (redemption) => redemption.orderId === orderId
+    );
+  }
+
+  async redeemTicket(redemptionData: InsertTicketRedemption): Promise<TicketRedemption | undefined> {
+    // 確かめてから差し引くまでの間に他の注文が割り込まないよう、await を挟まずに確かめる
+    const ticket = this.tickets.get(redemptionData.ticketId);
+    if (!ticket || ticket.remainingDrinks < redemptionData.drinks) {
+      return undefined;
+    }
+    this.tickets.set(ticket.id, { ...ticket, remainingDrinks: ticket.remainingDrinks - redemptionData.drinks });
+    const id = this.ticketRedemptionIdCounter++;
+    const redemption = { ...redemptionData, id, createdAt: new Date() };
+    this.ticketRedemptions.set(id, redemption);
+    return redemption;
+  }
+
+  async deleteTicketRedemptionByOrderId(orderId: number): Promise<boolean> {
+    const redemption = await this.getTicketRedemptionByOrderId(orderId);
+    if (!redemption) return false;
+    const ticket = this.tickets.get(redemption.ticketId);
+    if (ticket) {
+      this.tickets.set(ticket.id, { ...ticket, remainingDrinks: ticket.remainingDrinks + redemption.drinks });
+    }
+    return this.ticketRedemptions.delete(redemption.id);
+  }
+
+  // Cup Returns Methods
+  async getAllCupReturns(): Promise<CupReturn[]> {
+    return Array.from(this.cupReturns.values());
+  }
+
+  async createCupReturn(cupReturnData: InsertCupReturn): Promise<CupReturn> {
+    const id = this.cupReturnIdCounter++;
+    const cupReturn: CupReturn = { ...cupReturnData, id, createdAt: new Date() };
+    this.cupReturns.set(id, cupReturn);
+    return cupReturn;
+  }
+
+  // Payments Methods
+  async getPaymentsByOrderId(orderId: number): Promise<Payment[]> {
+    return Array.from(this.payments.values()).filter(
+      (payment) => payment.orderId === orderId
+    );
+  }
+
+  async getPaymentByProviderChargeId(chargeId: string): Promise<Payment | undefined> {
+    return Array.from(this.payments.values()).find(
+      (payment) => payment.providerChargeId === chargeId
+    );
+  }
+
+  async createPayment(paymentData: InsertPayment): Promise<Payment> {
+    const id = this.paymentIdCounter++;
+    const payment: Payment = {
+      changeAmount: 0,
+      ...paymentData,
+      providerChargeId: paymentData.providerChargeId ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.payments.set(id, payment);
+    return payment;
+  }
+
+  async deletePaymentsByOrderId(orderId: number): Promise<boolean> {
+    const payments = await this.getPaymentsByOrderId(orderId);
+    payments.forEach((payment) => this.payments.delete(payment.id));
+    return payments.length > 0;
+  }
+
+  // Refunds Methods
+  async getRefundsByOrderId(orderId: number): Promise<RefundWithLines[]> {
+    const refunds = Array.from(this.refunds.values()).filter(
+      (refund) => refund.orderId === orderId
+    );
+    return refunds.map((refund) => ({
+      ...refund,
+      lines: Array.from(this.refundLines.values()).filter((line) => line.refundId === refund.id)
+    }));
+  }
+
+  async createRefund(
+    refundData: InsertRefund,
+    lines: Omit<InsertRefundLine, "refundId">[]
+  ): Promise<RefundWithLines> {
+    const id = this.refundIdCounter++;
+    const refund: Refund = {
+      taxableAmount10: 0,
+      taxAmount10: 0,
+      taxableAmount8: 0,
+      taxAmount8: 0,
+      ...refundData,
+      method: refundData.method ?? "cash",
+      id,
+      createdAt: new Date()
+    };
+    this.refunds.set(id, refund);
+
+    const refundLines = lines.map((line) => {
+      const refundLine = { ...line, id: this.refundLineIdCounter++, refundId: id };
+      this.refundLines.set(refundLine.id, refundLine);
+      return refundLine;
+    });
+    return { ...refund, lines: refundLines };
+  }
+
+  // Register Closes Methods
+  async getAllRegisterCloses(): Promise<RegisterClose[]> {
+    return Array.from(this.registerCloses.values());
+  }
+
+  async getLatestRegisterClose(): Promise<RegisterClose | undefined> {
+    const closes = await this.getAllRegisterCloses();
+    return closes[closes.length - 1];
+  }
+
+  async createRegisterClose(registerCloseData: InsertRegisterClose): Promise<RegisterClose> {
+    const id = this.registerCloseIdCounter++;
+    const registerClose: RegisterClose = { ...registerCloseData, id, closedAt: new Date() };
+    this.registerCloses.set(id, registerClose);
+    return registerClose;
+  }
+
   // Combined Operations
   async getOrderWithItems(orderId: number): Promise<OrderWithItems | undefined> {
     const order = await this.getOrderById(orderId);
@@ -238,7 +664,9 @@ export class MemStorage implements IStorage {
 
     return {
       ...order,
-      items: itemsWithDetails
+      items: itemsWithDetails,
+      payments: await this.getPaymentsByOrderId(orderId),
+      refunds: await this.getRefundsByOrderId(orderId)
     };
   }
 
@@ -254,79 +682,90 @@ export class MemStorage implements IStorage {
 
   async updateOrderWithItems(
     id: number,
-    orderData: { orderNumber: string; status: OrderStatus; },
-    items: Array<{ menuItemId: number; quantity: number; }>
+    orderData: { status: OrderStatus; note: string | null; },
+    items: Array<{ menuItemId: number; quantity: number; options?: SelectedOption[]; adjustment?: LineAdjustment | null; note?: string | null; }>
   ): Promise<OrderWithItems | undefined> {
     // Check if order exists
     const existingOrder = await this.getOrderById(id);
     if (!existingOrder) return undefined;
 
     // 注文アイテムに基づいて合計金額を計算する
-    // メニューアイテムの情報を取得
-    const itemsWithMenuInfo = await Promise.all(
-      items.map(async (item) => {
-        const menuItem = await this.getMenuItemById(item.menuItemId);
-        return {
-          ...item,
-          menuItem
-        };
-      })
-    );
+    // メニューアイテムの情報を取得（存在しないメニューは除外）
+    const pricingLines: Array<{
+      menuItemId: number;
+      menuItem: MenuItem;
+      quantity: number;
+      options?: SelectedOption[];
+      adjustment?: LineAdjustment | null;
+      note?: string | null;
+    }> = [];
+    for (const item of items) {
+      const menuItem = await this.getMenuItemById(item.menuItemId);
+      if (menuItem) {
+        pricingLines.push({ ...item, menuItem });
+      }
+    }
 
-    // 価格計算ロジック（フロントエンドと同じロジック）
-    // すべてのドリンクの数を数える
-    const totalDrinks = itemsWithMenuInfo.reduce(
-      (total, item) => total + item.quantity,
-      0
-    );
-    
-    // ソフトドリンクの数を数える（値引き用）
-    const softDrinks = itemsWithMenuInfo.reduce(
-      (total, item) => total + (item.menuItem?.category === "ソフトドリンク" ? item.quantity : 0),
-      0
-    );
-    
-    // 通常の料金計算: 1杯700円、2杯1200円、3杯1500円
-    let price = 0;
-    const fullSets = Math.floor(totalDrinks / 3);
-    const remainder = totalDrinks % 3;
-    
-    // 3杯セットの価格を加算
-    price += fullSets * 150000; // 1500円を100倍した値（セント表記）
-    
-    // 残りの杯数の価格を加算
-    if (remainder === 1) {
-      price += 70000; // 700円を100倍
-    } else if (remainder === 2) {
-      price += 120000; // 1200円を100倍
+    // 注文時に使ったクーポンは編集後も適用し続ける（利用期間・回数は再チェックしない）
+    const redemption = await this.getCouponRedemptionByOrderId(id);
+    const coupon = redemption ? await this.getCouponById(redemption.couponId) : undefined;
+
+    // 前売りチケットは注文時に引き換えた杯数を戻した上で引き換え直す
+    const ticketRedemption = await this.getTicketRedemptionByOrderId(id);
+    const ticket = ticketRedemption ? await this.getTicketById(ticketRedemption.ticketId) : undefined;
+
+    // 価格計算ロジック（フロントエンドと共通）
+    // 料金設定は注文時に有効だったものを使う（時間帯限定の料金でも編集時に変わらない）
+    const { totalAmount, linePrices, originalPrices, couponDiscount, ticketDrinks, ...amounts } = priceOrder(pricingLines, {
+      rules: getPricingRulesById(existingOrder.pricingRuleId),
+      coupon: coupon && toCouponTerms(coupon),
+      ticketDrinks: ticket && ticketRedemption ? ticket.remainingDrinks + ticketRedemption.drinks : undefined
+    });
+    if (redemption) {
+      this.couponRedemptions.set(redemption.id, { ...redemption, discountAmount: couponDiscount });
+    }
+    if (ticket && ticketRedemption) {
+      this.tickets.set(ticket.id, {
+        ...ticket,
+        remainingDrinks: ticket.remainingDrinks + ticketRedemption.drinks - ticketDrinks
+      });
+      this.ticketRedemptions.set(ticketRedemption.id, {
+        ...ticketRedemption,
+        drinks: ticketDrinks,
+        amount: amounts.ticketAmount
+      });
     }
-    
-    // ソフトドリンクの値引き：1杯につき200円引き
-    const discount = softDrinks * 20000; // 200円 × ソフトドリンクの杯数
-    
-    // 値引き後の価格を計算
-    const totalAmount = Math.max(0, price - discount);
 
     // Update the order with new total amount
     const updatedOrder = {
       ...existingOrder,
       ...orderData,
       totalAmount,
+      ...amounts,
       updatedAt: new Date()
     };
     this.orders.set(id, updatedOrder);
 
+    // 厨房で作り終えた数は同じ明細に引き継ぐ
+    const completedQuantities = carryOverCompletedQuantities(pricingLines, await this.getOrderItemsByOrderId(id));
+
     // Delete existing order items
     await this.deleteOrderItemsByOrderId(id);
 
     // Create new order items
-    for (const item of items) {
-      await this.createOrderItem({
+    for (let index = 0; index < pricingLines.length; index++) {
+      const orderItem = await this.createOrderItem({
         orderId: id,
-        menuItemId: item.menuItemId,
-        quantity: item.quantity,
-        price: 0 // Price is not displayed, so we set it to 0
+        menuItemId: pricingLines[index].menuItemId,
+        quantity: pricingLines[index].quantity,
+        options: pricingLines[index].options ?? [],
+        price: linePrices[index],
+        ...toAdjustmentColumns(pricingLines[index].adjustment, originalPrices[index]),
+        note: pricingLines[index].note ?? null
       });
+      if (completedQuantities[index] > 0) {
+        await this.updateOrderItemCompletedQuantity(orderItem.id, completedQuantities[index]);
+      }
     }
 
     // Return the updated order with items
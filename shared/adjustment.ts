@@ -0,0 +1,75 @@
+import type { AdjustmentKind, AdjustmentReason, LineAdjustment, OrderItem } from "./schema";
+
+export const adjustmentKindLabels: Record<AdjustmentKind, string> = {
+  comp: "コンプ",
+  override: "価格変更",
+};
+
+export const adjustmentReasonLabels: Record<AdjustmentReason, string> = {
+  staff: "スタッフ",
+  apology: "お詫び",
+  other: "その他",
+};
+
+// 調整後の明細金額（コンプは0円）
+export function adjustedAmount(adjustment: Pick<LineAdjustment, "kind" | "amount">): number {
+  return adjustment.kind === "comp" ? 0 : adjustment.amount ?? 0;
+}
+
+// 保存済みの注文明細から調整内容を取り出す（編集時にそのまま送り直すため）
+export function adjustmentOf(
+  item: Pick<OrderItem, "price" | "adjustmentKind" | "adjustmentReason" | "adjustmentApprovedBy">
+): LineAdjustment | undefined {
+  if (!item.adjustmentKind) return undefined;
+  return {
+    kind: item.adjustmentKind as AdjustmentKind,
+    amount: item.adjustmentKind === "override" ? item.price : undefined,
+    reason: item.adjustmentReason as AdjustmentReason,
+    approvedBy: item.adjustmentApprovedBy ?? "",
+  };
+}
+
+// 注文明細に保存する調整内容（調整していない明細はすべて null）
+export function toAdjustmentColumns(
+  adjustment: LineAdjustment | null | undefined,
+  originalPrice: number | null
+): Pick<OrderItem, "adjustmentKind" | "adjustmentReason" | "adjustmentApprovedBy" | "originalPrice"> {
+  return {
+    adjustmentKind: adjustment?.kind ?? null,
+    adjustmentReason: adjustment?.reason ?? null,
+    adjustmentApprovedBy: adjustment?.approvedBy ?? null,
+    originalPrice: adjustment ? originalPrice : null,
+  };
+}
+
+type AdjustedLineInput = { menuItemId: number; quantity: number; adjustment?: LineAdjustment | null };
+
+// 同じ商品・数量・調整内容かを比べるためのキー（承認者の名前は比べない）
+function adjustedLineKey(menuItemId: number, quantity: number, adjustment: LineAdjustment): string {
+  return `${menuItemId}:${quantity}:${adjustment.kind}:${adjustedAmount(adjustment)}:${adjustment.reason}`;
+}
+
+// 保存済みの明細に無いコンプ・価格変更が含まれているか。新たな調整には管理者の承認が要る。
+// 注文の作成時は existingItems を省略する（調整があれば true）
+export function hasNewAdjustments(
+  lines: AdjustedLineInput[],
+  existingItems: Array<
+    Pick<OrderItem, "menuItemId" | "quantity" | "price" | "adjustmentKind" | "adjustmentReason" | "adjustmentApprovedBy">
+  > = []
+): boolean {
+  const remaining = new Map<string, number>();
+  for (const item of existingItems) {
+    const adjustment = adjustmentOf(item);
+    if (!adjustment) continue;
+    const key = adjustedLineKey(item.menuItemId, item.quantity, adjustment);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+  return lines.some((line) => {
+    if (!line.adjustment) return false;
+    const key = adjustedLineKey(line.menuItemId, line.quantity, line.adjustment);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+}
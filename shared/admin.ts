@@ -0,0 +1,19 @@
+// 管理者向けの操作（注文の完全削除・クーポンの登録・前売りチケットの発行）に付けるヘッダー。値はサーバーの環境変数 ADMIN_TOKEN と照合する
+export const ADMIN_TOKEN_HEADER = "x-admin-token";
+
+// ADMIN_TOKEN が未設定の場合は管理者向けの操作をすべて拒否する
+export function isAdminRequest(
+  headers: Record<string, string | string[] | undefined>,
+  adminToken: string | undefined
+): boolean {
+  const value = headers[ADMIN_TOKEN_HEADER];
+  const submitted = Array.isArray(value) ? value[0] : value;
+  if (!adminToken || !submitted || submitted.length !== adminToken.length) return false;
+
+  // 一致するまでの時間で値を推測されないよう、すべての文字を比較する
+  let difference = 0;
+  for (let index = 0; index < adminToken.length; index++) {
+    difference |= adminToken.charCodeAt(index) ^ submitted.charCodeAt(index);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,37 @@
+import type { Coupon } from "./schema";
+
+// 料金計算に必要なクーポンの条件（クライアントにもこの形で返す）
+export type CouponTerms = Pick<Coupon, "code" | "kind" | "value" | "maxDiscountAmount">;
+
+// クーポンが使えない理由
+export type CouponRejection = "not-found" | "not-started" | "expired" | "usage-limit";
+
+export const couponRejectionMessages: Record<CouponRejection, string> = {
+  "not-found": "クーポンコードが見つかりません",
+  "not-started": "このクーポンはまだ利用期間前です",
+  "expired": "このクーポンは利用期間を過ぎています",
+  "usage-limit": "このクーポンは利用上限に達しています",
+};
+
+export function toCouponTerms(coupon: Coupon): CouponTerms {
+  const { code, kind, value, maxDiscountAmount } = coupon;
+  return { code, kind, value, maxDiscountAmount };
+}
+
+// 利用期間と利用回数をチェックする。使える場合は null
+export function checkCoupon(
+  coupon: Coupon | undefined,
+  redemptionCount: number,
+  now: Date = new Date()
+): CouponRejection | null {
+  if (!coupon) return "not-found";
+  if (coupon.validFrom && now < new Date(coupon.validFrom)) return "not-started";
+  if (coupon.validUntil && now > new Date(coupon.validUntil)) return "expired";
+  if (coupon.usageLimit != null && redemptionCount >= coupon.usageLimit) return "usage-limit";
+  return null;
+}
+
+// クーポンコードは大文字・小文字を区別しない
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
@@ -0,0 +1,75 @@
+import type { MenuItem } from "./schema";
+
+// リユースカップのデポジット。enabled の間はドリンク1杯ごとに menuItemId の商品（デポジット）を1つ明細に加える。
+// デポジットを使わないイベントでは enabled を false にする
+export const CUP_DEPOSIT = {
+  enabled: true,
+  menuItemId: 8,
+};
+
+type DepositLine = { menuItem: Pick<MenuItem, "id" | "productType">; quantity: number };
+
+export function isCupDepositItem(menuItem: Pick<MenuItem, "id">): boolean {
+  return CUP_DEPOSIT.enabled && menuItem.id === CUP_DEPOSIT.menuItemId;
+}
+
+// 必要なカップの数（コンプ・前売りチケットの杯数を含むすべてのドリンク）
+export function cupDepositQuantity(lines: DepositLine[]): number {
+  return lines
+    .filter((line) => line.menuItem.productType === "drink")
+    .reduce((total, line) => total + line.quantity, 0);
+}
+
+// デポジットの明細をドリンクの杯数に合わせる。画面や API から送られたデポジットの数量は使わず、
+// 末尾に1行だけ置く（ドリンクが無ければ明細から外す）
+export function withCupDeposit<T extends DepositLine>(lines: T[], depositLine: (quantity: number) => T): T[] {
+  if (!CUP_DEPOSIT.enabled) return lines;
+  const others = lines.filter((line) => !isCupDepositItem(line.menuItem));
+  const quantity = cupDepositQuantity(others);
+  return quantity > 0 ? [...others, depositLine(quantity)] : others;
+}
+
+// カップの貸出・返却の状況
+export interface CupSummary {
+  enabled: boolean;
+  // デポジット1つあたりの金額
+  depositPrice: number;
+  cupsOut: number;
+  cupsReturned: number;
+  // お客様の手元にあるカップ（返却待ち）
+  cupsOutstanding: number;
+  // 受け取ったデポジット（売上とは別に集計する）
+  depositTotal: number;
+  // 返却で返したデポジット（マイナス）
+  depositRefundTotal: number;
+}
+
+export interface CupActivity {
+  // 注文のデポジットの明細と、その返金済みの数量
+  depositLines: Array<{ quantity: number; refundedQuantity: number }>;
+  orders: Array<{ depositAmount: number }>;
+  cupReturns: Array<{ cups: number; amount: number }>;
+}
+
+export function summarizeCups(activity: CupActivity, depositPrice: number): CupSummary {
+  // 注文の返金でデポジットを返した分は貸し出していないものとして数える
+  const cupsOut = activity.depositLines.reduce((total, line) => total + line.quantity - line.refundedQuantity, 0);
+  const cupsReturned = activity.cupReturns.reduce((total, cupReturn) => total + cupReturn.cups, 0);
+  return {
+    enabled: CUP_DEPOSIT.enabled,
+    depositPrice,
+    cupsOut,
+    cupsReturned,
+    cupsOutstanding: Math.max(0, cupsOut - cupsReturned),
+    depositTotal: activity.orders.reduce((total, order) => total + order.depositAmount, 0),
+    depositRefundTotal: activity.cupReturns.reduce((total, cupReturn) => total + cupReturn.amount, 0),
+  };
+}
+
+// カップ返却を受け付けられない理由
+export type CupReturnRejection = "disabled" | "exceeds-outstanding";
+
+export const cupReturnRejectionMessages: Record<CupReturnRejection, string> = {
+  disabled: "デポジットを使っていません",
+  "exceeds-outstanding": "貸し出し中のカップより多く返却しようとしています",
+};
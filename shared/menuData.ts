@@ -1,11 +1,41 @@
-import { MenuItem } from "./schema";
+import { MenuItem, MenuOptionGroup } from "./schema";
+
+// ドリンクのオプション（レジで選んだ内容を厨房のカードに表示する）
+export const ICE_OPTIONS: MenuOptionGroup = {
+  id: "ice",
+  name: "氷",
+  required: true,
+  options: [
+    { id: "regular", name: "氷普通", priceDelta: 0 },
+    { id: "less", name: "氷少なめ", priceDelta: 0 },
+    { id: "none", name: "氷なし", priceDelta: 0 },
+  ],
+};
+
+export const STYLE_OPTIONS: MenuOptionGroup = {
+  id: "style",
+  name: "飲み方",
+  required: true,
+  options: [
+    { id: "rock", name: "ロック", priceDelta: 0 },
+    { id: "soda", name: "ソーダ割り", priceDelta: 0 },
+  ],
+};
+
+export const STRONG_OPTIONS: MenuOptionGroup = {
+  id: "strong",
+  name: "濃いめ",
+  required: false,
+  options: [{ id: "double", name: "濃いめ", priceDelta: 10000 }],
+};
 
 export const MENU_ITEMS: MenuItem[] = [
-  { id: 1, name: "日本酒みかんロック",   price: 75000, imageUrl: "", category: "お酒" },
-  { id: 2, name: "太幸ワイン",           price: 80000, imageUrl: "", category: "お酒" },
-  { id: 3, name: "太幸ワインサングリア", price: 85000, imageUrl: "", category: "お酒" },
-  { id: 4, name: "ブラッドオレンジ梅酒", price: 78000, imageUrl: "", category: "お酒" },
-  { id: 5, name: "カシス河内晩柑",       price: 78000, imageUrl: "", category: "お酒" },
-  { id: 6, name: "レモン酎ハイ",         price: 70000, imageUrl: "", category: "お酒" },
-  { id: 7, name: "河内晩柑ジュース",     price: 55000, imageUrl: "", category: "ソフトドリンク" },
+  { id: 1, name: "日本酒みかんロック",   price: 75000, imageUrl: "", category: "お酒",           taxRate: 10, productType: "drink",   optionGroups: [ICE_OPTIONS, STRONG_OPTIONS] },
+  { id: 2, name: "太幸ワイン",           price: 80000, imageUrl: "", category: "お酒",           taxRate: 10, productType: "drink",   optionGroups: [] },
+  { id: 3, name: "太幸ワインサングリア", price: 85000, imageUrl: "", category: "お酒",           taxRate: 10, productType: "drink",   optionGroups: [ICE_OPTIONS] },
+  { id: 4, name: "ブラッドオレンジ梅酒", price: 78000, imageUrl: "", category: "お酒",           taxRate: 10, productType: "drink",   optionGroups: [STYLE_OPTIONS, ICE_OPTIONS, STRONG_OPTIONS] },
+  { id: 5, name: "カシス河内晩柑",       price: 78000, imageUrl: "", category: "お酒",           taxRate: 10, productType: "drink",   optionGroups: [STYLE_OPTIONS, ICE_OPTIONS] },
+  { id: 6, name: "レモン酎ハイ",         price: 70000, imageUrl: "", category: "お酒",           taxRate: 10, productType: "drink",   optionGroups: [ICE_OPTIONS, STRONG_OPTIONS] },
+  { id: 7, name: "河内晩柑ジュース",     price: 55000, imageUrl: "", category: "ソフトドリンク", taxRate: 8,  productType: "drink",   optionGroups: [ICE_OPTIONS] },
+  { id: 8, name: "リユースカップ",       price: 30000, imageUrl: "", category: "デポジット",     taxRate: 10, productType: "deposit", optionGroups: [] },
 ];
@@ -0,0 +1,79 @@
+import type { MenuOptionGroup, OptionSelection, SelectedOption } from "./schema";
+
+// 古いメニューのデータにはオプションの項目が無いことがある
+type WithOptionGroups = { optionGroups?: MenuOptionGroup[] | null };
+
+// 選んだオプションを受け付けられない理由
+export type OptionRejection = "unknown-option" | "duplicate-group" | "missing-required";
+
+// レジで選んだオプションをメニューのオプションと照らし合わせ、名前と追加料金を付ける。
+// 並び順はメニューの項目の順にそろえる（同じ組み合わせを同じ明細として扱うため）。
+// allowMissingRequired は保存済みの明細をそのまま送り直す場合に使う（必須の項目が後から増えた明細のため）
+export function resolveOptions(
+  menuItem: WithOptionGroups,
+  selections: OptionSelection[],
+  { allowMissingRequired = false }: { allowMissingRequired?: boolean } = {}
+): { options: SelectedOption[] } | { rejection: OptionRejection } {
+  const groups = menuItem.optionGroups ?? [];
+  const chosen = new Map<string, string>();
+  for (const { groupId, optionId } of selections) {
+    const group = groups.find((candidate) => candidate.id === groupId);
+    if (!group?.options.some((option) => option.id === optionId)) return { rejection: "unknown-option" };
+    if (chosen.has(groupId)) return { rejection: "duplicate-group" };
+    chosen.set(groupId, optionId);
+  }
+
+  const options: SelectedOption[] = [];
+  for (const group of groups) {
+    const option = group.options.find((candidate) => candidate.id === chosen.get(group.id));
+    if (!option) {
+      if (group.required && !allowMissingRequired) return { rejection: "missing-required" };
+      continue;
+    }
+    options.push({
+      groupId: group.id,
+      optionId: option.id,
+      groupName: group.name,
+      name: option.name,
+      priceDelta: option.priceDelta,
+    });
+  }
+  return { options };
+}
+
+// 必須の項目は先頭の選択肢を、任意の項目は「なし」を初期値にする
+export function defaultOptionSelections(menuItem: WithOptionGroups): OptionSelection[] {
+  return (menuItem.optionGroups ?? [])
+    .filter((group) => group.required)
+    .map((group) => ({ groupId: group.id, optionId: group.options[0].id }));
+}
+
+// 保存済み・カートのオプションを API に送る形にする
+export function toOptionSelections(options: OptionSelection[] | null | undefined): OptionSelection[] {
+  return (options ?? []).map(({ groupId, optionId }) => ({ groupId, optionId }));
+}
+
+// 1つあたりの追加料金
+export function optionPriceDelta(options: Array<Pick<SelectedOption, "priceDelta">> | null | undefined): number {
+  return (options ?? []).reduce((total, option) => total + option.priceDelta, 0);
+}
+
+// 厨房・レシート向けの表示（例: ロック・氷少なめ）
+export function optionsLabel(options: Array<Pick<SelectedOption, "name">> | null | undefined): string {
+  return (options ?? []).map((option) => option.name).join("・");
+}
+
+// 同じ商品でもオプションが違えば別の明細にするためのキー
+export function optionsKey(options: OptionSelection[] | null | undefined): string {
+  return (options ?? []).map((option) => `${option.groupId}:${option.optionId}`).join(",");
+}
+
+type OptionLine = { menuItemId: number; options?: OptionSelection[] | null };
+
+// 保存済みの明細と同じ商品・オプションの組み合わせか。オプションを設ける前の注文の明細は
+// 必須の項目が選ばれていないが、そのまま編集で送り直せるようにする
+export function matchesStoredOptions(line: OptionLine, existingItems: OptionLine[]): boolean {
+  return existingItems.some(
+    (item) => item.menuItemId === line.menuItemId && optionsKey(item.options) === optionsKey(line.options)
+  );
+}
@@ -0,0 +1,72 @@
+import type { MenuItem, OrderEvent, OrderEventType, OrderItem, OrderWithItems } from "./schema";
+import { optionsLabel } from "./menuOption";
+
+export const orderEventTypeLabels: Record<OrderEventType, string> = {
+  created: "注文作成",
+  "status-changed": "ステータス変更",
+  "items-edited": "注文内容の編集",
+  cancelled: "取消",
+  deleted: "完全削除",
+};
+
+// 変更した端末・担当者は API リクエストのヘッダーで送る。
+// 担当者名は日本語を含むため encodeURIComponent した値を送る
+export const ORDER_ACTOR_HEADERS = {
+  deviceId: "x-device-id",
+  staffName: "x-staff-name",
+} as const;
+
+export type OrderActor = Pick<OrderEvent, "deviceId" | "staffName">;
+
+type Headers = Record<string, string | string[] | undefined>;
+
+function headerValue(headers: Headers, name: string): string | null {
+  const value = headers[name];
+  const text = (Array.isArray(value) ? value[0] : value)?.trim();
+  return text ? text.slice(0, 100) : null;
+}
+
+export function actorFromHeaders(headers: Headers): OrderActor {
+  const staffName = headerValue(headers, ORDER_ACTOR_HEADERS.staffName);
+  let decoded = staffName;
+  try {
+    decoded = staffName && decodeURIComponent(staffName);
+  } catch {
+    // エンコードされていない値はそのまま記録する
+  }
+  return {
+    deviceId: headerValue(headers, ORDER_ACTOR_HEADERS.deviceId),
+    staffName: decoded,
+  };
+}
+
+// イベントに記録する注文の内容（明細は商品名ごと残し、メニューが変わっても読めるようにする）
+export interface OrderSnapshot {
+  [key: string]: unknown;
+  orderNumber: string;
+  status: string;
+  totalAmount: number;
+  note?: string | null;
+  items: Array<{ menuItemId: number; name: string; quantity: number; price: number; options?: string; note?: string | null }>;
+}
+
+export function orderSnapshot(
+  order: Pick<OrderWithItems, "orderNumber" | "status" | "totalAmount" | "note"> & {
+    items: Array<Pick<OrderItem, "menuItemId" | "quantity" | "price" | "options" | "note"> & { menuItem: Pick<MenuItem, "name"> }>;
+  }
+): OrderSnapshot {
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    totalAmount: order.totalAmount,
+    note: order.note,
+    items: order.items.map((item) => ({
+      menuItemId: item.menuItemId,
+      name: item.menuItem.name,
+      quantity: item.quantity,
+      price: item.price,
+      options: optionsLabel(item.options),
+      note: item.note,
+    })),
+  };
+}
@@ -0,0 +1,32 @@
+import { STORE_INFO } from "./storeInfo";
+
+// 注文番号の振り方。番号はサーバーが連番で振る（複数のレジから同時に注文しても重複しない）
+export const ORDER_NUMBERING = {
+  prefix: "#",
+  // 連番の最初の番号
+  start: 1,
+  // 営業日ごとに start から振り直す。false なら通しの連番
+  resetDaily: true,
+  // 営業日の切り替わり（店舗の現地時刻）。深夜の営業は前日の営業日として数える
+  dayStartHour: 5,
+};
+
+// 営業日（"yyyy-MM-dd"、店舗の現地時刻で dayStartHour を境に切り替わる）
+export function businessDateOf(date: Date = new Date()): string {
+  const shifted = new Date(date.getTime() - ORDER_NUMBERING.dayStartHour * 60 * 60 * 1000);
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: STORE_INFO.timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(shifted);
+}
+
+// 連番を数える単位。毎日振り直す場合は営業日ごと
+export function orderSequenceKey(businessDate: string): string {
+  return ORDER_NUMBERING.resetDaily ? businessDate : "all";
+}
+
+export function formatOrderNumber(sequence: number): string {
+  return `${ORDER_NUMBERING.prefix}${sequence}`;
+}
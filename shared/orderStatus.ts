@@ -0,0 +1,110 @@
+import type { CancelReason, MenuItem, OptionSelection, OrderItem, OrderStatus } from "./schema";
+import { optionsKey } from "./menuOption";
+
+// 注文の状態の移り変わり。new → in-progress → ready → picked-up の順に進み、
+// 受け渡し前なら cancelled にできる。picked-up と cancelled はそれ以上変わらない
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  new: ["in-progress", "cancelled"],
+  "in-progress": ["ready", "cancelled"],
+  // 完了を押し間違えた場合は調理中に戻せる
+  ready: ["picked-up", "in-progress", "cancelled"],
+  "picked-up": [],
+  cancelled: [],
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  new: "新規",
+  "in-progress": "調理中",
+  ready: "完了",
+  "picked-up": "受け渡し済み",
+  cancelled: "取消",
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// 提供前の注文は編集・削除で、提供後の注文は返金で対応する
+export function isEditableStatus(status: OrderStatus): boolean {
+  return status === "new" || status === "in-progress";
+}
+
+export function isCompletedStatus(status: OrderStatus): boolean {
+  return status === "ready" || status === "picked-up";
+}
+
+export const cancelReasonLabels: Record<CancelReason, string> = {
+  "customer-request": "お客様都合",
+  "wrong-order": "注文間違い",
+  duplicate: "重複入力",
+  "sold-out": "品切れ",
+  other: "その他",
+};
+
+// 取消は理由を付けて専用の操作で行う（ステータス更新では取り消せない）
+export function isCancellable(status: OrderStatus): boolean {
+  return canTransition(status, "cancelled");
+}
+
+// 厨房画面で取消の注文を表示し続ける時間（作り始めていたドリンクを止めるため）
+export const KITCHEN_CANCELLED_DISPLAY_MS = 2 * 60 * 1000;
+
+// 厨房で作る明細（デポジットは作らないのでチェックしない）
+export function isKitchenLine(item: { menuItem: Pick<MenuItem, "productType"> }): boolean {
+  return item.menuItem.productType !== "deposit";
+}
+
+// 明細ごとのチェックを受け付けるステータス（完了後も外せば調理中に戻る）
+export function acceptsItemProgress(status: OrderStatus): boolean {
+  return status === "new" || status === "in-progress" || status === "ready";
+}
+
+// 明細のチェックに合わせて進めるステータス（順に遷移する）。
+// 1つでもチェックすれば調理中、すべて済めば完了、完了後に外せば調理中に戻す
+export function progressTransitions(
+  status: OrderStatus,
+  lines: Array<Pick<OrderItem, "quantity" | "completedQuantity">>
+): OrderStatus[] {
+  if (lines.length === 0) return [];
+  const started = lines.some((line) => line.completedQuantity > 0);
+  const done = lines.every((line) => line.completedQuantity >= line.quantity);
+
+  const path: OrderStatus[] = [];
+  let current = status;
+  if (current === "new" && started) {
+    current = "in-progress";
+    path.push(current);
+  }
+  if (current === "in-progress" && done) {
+    path.push("ready");
+  } else if (current === "ready" && !done) {
+    path.push("in-progress");
+  }
+  return path;
+}
+
+type CompletionLine = { menuItemId: number; options?: OptionSelection[] | null; note?: string | null };
+
+// 作り終えた数を引き継ぐときに同じ明細とみなすキー（商品・オプション・メモが同じもの）
+function completionKey(line: CompletionLine): string {
+  return `${line.menuItemId}:${optionsKey(line.options)}:${line.note ?? ""}`;
+}
+
+// 注文の編集で明細を作り直しても、作り終えた数を同じ明細に引き継ぐ（lines と同じ順序で返す）。
+// 数量を減らした明細は新しい数量までにする
+export function carryOverCompletedQuantities(
+  lines: Array<CompletionLine & { quantity: number }>,
+  existingItems: Array<CompletionLine & Pick<OrderItem, "completedQuantity">>
+): number[] {
+  const completed = new Map<string, number>();
+  for (const item of existingItems) {
+    const key = completionKey(item);
+    completed.set(key, (completed.get(key) ?? 0) + item.completedQuantity);
+  }
+  return lines.map((line) => {
+    const key = completionKey(line);
+    const carried = Math.min(line.quantity, completed.get(key) ?? 0);
+    completed.set(key, (completed.get(key) ?? 0) - carried);
+    return carried;
+  });
+}
@@ -0,0 +1,92 @@
+import type { LineAdjustment, OptionSelection, OrderItem, Payment, PaymentMethod, PaymentRequest } from "./schema";
+import { adjustedAmount, adjustmentOf } from "./adjustment";
+import { optionsKey } from "./menuOption";
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "現金",
+  qr: "QR決済",
+  card: "カード",
+  ticket: "チケット",
+};
+
+// 決済端末を通す支払方法（現金・チケットはレジで直接受け取る）
+export const TERMINAL_PAYMENT_METHODS: PaymentMethod[] = ["qr", "card"];
+
+// 決済端末での決済の状態
+export type ChargeStatus = "pending" | "approved" | "declined" | "timeout" | "refunded";
+
+export const chargeFailureMessages: Partial<Record<ChargeStatus, string>> = {
+  declined: "決済が承認されませんでした",
+  timeout: "決済端末の応答がありませんでした",
+  refunded: "注文の残額が変わったため決済を取り消しました",
+};
+
+// 現金のクイック入力（¥1,000 / ¥5,000 / ¥10,000）
+export const QUICK_TENDER_AMOUNTS = [100000, 500000, 1000000];
+
+// 会計できない理由
+export type PaymentRejection = "already-paid" | "exceeds-balance" | "insufficient-tender";
+
+export const paymentRejectionMessages: Record<PaymentRejection, string> = {
+  "already-paid": "この注文は会計済みです",
+  "exceeds-balance": "支払額が残額を超えています",
+  "insufficient-tender": "お預かり金額が不足しています",
+};
+
+// 支払い済みの合計
+export function paidTotal(payments: Pick<Payment, "amount">[]): number {
+  return payments.reduce((total, payment) => total + payment.amount, 0);
+}
+
+// 未払いの残額
+export function paymentBalance(totalAmount: number, payments: Pick<Payment, "amount">[]): number {
+  return totalAmount - paidTotal(payments);
+}
+
+// 支払いを記録する内容。複数の支払方法に分けて払う場合は amount で一部だけ支払う。
+// お釣りは現金のときだけ発生する
+export function calculatePayment(
+  totalAmount: number,
+  payments: Pick<Payment, "amount">[],
+  request: PaymentRequest
+): Pick<Payment, "method" | "amount" | "tenderedAmount" | "changeAmount"> | { rejection: PaymentRejection } {
+  const balance = paymentBalance(totalAmount, payments);
+  if (balance <= 0 && payments.length > 0) return { rejection: "already-paid" };
+  if (request.amount !== undefined && request.amount > balance) return { rejection: "exceeds-balance" };
+  const amount = request.amount ?? balance;
+
+  if (request.method !== "cash") {
+    return { method: request.method, amount, tenderedAmount: amount, changeAmount: 0 };
+  }
+  const tenderedAmount = request.tenderedAmount ?? amount;
+  if (tenderedAmount < amount) return { rejection: "insufficient-tender" };
+  return { method: request.method, amount, tenderedAmount, changeAmount: tenderedAmount - amount };
+}
+
+type PricedLineInput = {
+  menuItemId: number;
+  quantity: number;
+  options?: OptionSelection[] | null;
+  adjustment?: LineAdjustment | null;
+};
+
+// 金額に関わる明細の内容（メモは金額に関わらないので含めない）
+function pricedLineKey(line: PricedLineInput): string {
+  const adjustment = line.adjustment ? `${line.adjustment.kind}:${adjustedAmount(line.adjustment)}` : "";
+  return `${line.menuItemId}:${line.quantity}:${optionsKey(line.options)}:${adjustment}`;
+}
+
+// 編集で金額に関わる明細（商品・数量・オプション・コンプ・価格変更）が変わるか。
+// 支払いのある注文は、受け取った額と合計がずれないよう金額の変わる編集を受け付けない
+export function changesPricedLines(
+  lines: PricedLineInput[],
+  existingItems: Array<
+    Pick<OrderItem, "menuItemId" | "quantity" | "options" | "price" | "adjustmentKind" | "adjustmentReason" | "adjustmentApprovedBy">
+  >
+): boolean {
+  const keys = (priced: PricedLineInput[]) => priced.map(pricedLineKey).sort().join("|");
+  return (
+    keys(lines) !==
+    keys(existingItems.map((item) => ({ ...item, adjustment: adjustmentOf(item) })))
+  );
+}
@@ -0,0 +1,415 @@
+import type { LineAdjustment, MenuItem, SelectedOption } from "./schema";
+import type { CouponTerms } from "./coupon";
+import { adjustedAmount } from "./adjustment";
+import { optionPriceDelta } from "./menuOption";
+import { PRICING_RULES, TIME_WINDOW_PRICING_RULES } from "./pricingRules";
+import { STORE_INFO } from "./storeInfo";
+import { calculateTaxBreakdown, toOrderTaxAmounts, type OrderTaxAmounts } from "./tax";
+
+// 適用時間帯（"HH:mm"、店舗の現地時刻。start 以上 end 未満）
+export interface PricingWindow {
+  start: string;
+  end: string;
+}
+
+export interface PricingRules {
+  // 注文に記録する識別子と画面表示名
+  id: string;
+  name: string;
+  // 設定がある場合はこの時間帯だけ適用する
+  window?: PricingWindow;
+  // 何杯で1セットとするか
+  setSize: number;
+  // tierPrices[n - 1] が n杯の合計金額。最後の要素がセット価格になる
+  tierPrices: number[];
+  // カテゴリ名 → 1杯あたりの値引き額
+  categoryDiscounts: Record<string, number>;
+}
+
+export interface PricingOptions {
+  // 省略時は現在時刻に有効な料金設定
+  rules?: PricingRules;
+  coupon?: CouponTerms | null;
+  // 前売りチケットで引き換えられる杯数（チケットの残り杯数）。注文のドリンク数までを引き換える
+  ticketDrinks?: number;
+}
+
+export interface PricingLine {
+  menuItem: Pick<MenuItem, "name" | "category" | "productType" | "price">;
+  quantity: number;
+  // スタッフによるコンプ・価格変更。設定された明細はセットの杯数とクーポンの対象外
+  adjustment?: LineAdjustment | null;
+  // 選んだオプション。追加料金はセット価格とは別に数量分を加える
+  options?: Array<Pick<SelectedOption, "name" | "priceDelta">> | null;
+}
+
+// カテゴリ値引きの明細（例: ソフトドリンク 2杯 × ¥200）
+export interface DiscountLine {
+  category: string;
+  quantity: number;
+  unitDiscount: number;
+  amount: number;
+}
+
+// ドリンク以外の明細（物販・デポジット）
+export interface ProductLine {
+  name: string;
+  productType: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// オプションの追加料金の明細（例: レモン酎ハイ 濃いめ 2杯 × ¥100）
+export interface OptionLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// コンプ・価格変更の明細。originalAmount は調整しなかった場合の金額
+export interface AdjustmentLine {
+  name: string;
+  kind: LineAdjustment["kind"];
+  reason: LineAdjustment["reason"];
+  approvedBy: string;
+  quantity: number;
+  originalAmount: number;
+  amount: number;
+}
+
+// 料金の内訳。お客様に計算根拠を説明するために使う
+export interface PriceQuote {
+  totalDrinks: number;
+  setSize: number;
+  setCount: number;
+  setPrice: number;
+  remainder: number;
+  remainderPrice: number;
+  pricingRule: PricingRuleSummary;
+  discounts: DiscountLine[];
+  productLines: ProductLine[];
+  optionLines: OptionLine[];
+  coupon: CouponTerms | null;
+  couponDiscount: number;
+  // 前売りチケットで引き換えた杯数と、その分の支払い済みの金額（total から除く）
+  ticketDrinks: number;
+  ticketAmount: number;
+  adjustments: AdjustmentLine[];
+  // 調整で差し引いた金額の合計（売上とは別に集計する）
+  adjustmentTotal: number;
+  total: number;
+}
+
+// 画面表示用の料金設定の概要
+export type PricingRuleSummary = Pick<PricingRules, "id" | "name" | "window">;
+
+export { PRICING_RULES };
+
+// 店舗の現地時刻を "HH:mm" で返す
+function localTimeOf(date: Date): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: STORE_INFO.timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+}
+
+function isWithinWindow(time: string, { start, end }: PricingWindow): boolean {
+  // 日付をまたぐ時間帯（例: 23:00〜01:00）にも対応する
+  return start <= end ? start <= time && time < end : time >= start || time < end;
+}
+
+// 指定時刻に有効な料金設定を選ぶ
+export function selectPricingRules(now: Date = new Date()): PricingRules {
+  const time = localTimeOf(now);
+  return (
+    TIME_WINDOW_PRICING_RULES.find((rules) => rules.window && isWithinWindow(time, rules.window)) ??
+    PRICING_RULES
+  );
+}
+
+// 注文に記録された料金設定を取り出す。設定が削除されている場合は通常料金
+export function getPricingRulesById(id: string | null | undefined): PricingRules {
+  return TIME_WINDOW_PRICING_RULES.find((rules) => rules.id === id) ?? PRICING_RULES;
+}
+
+// 杯数だけで決まる値引き前の金額
+function setPricing(drinks: number, { setSize, tierPrices }: PricingRules): number {
+  const remainder = drinks % setSize;
+  return Math.floor(drinks / setSize) * tierPrices[setSize - 1] + (remainder > 0 ? tierPrices[remainder - 1] : 0);
+}
+
+// クーポンの値引き額。値引き後の金額と1注文あたりの上限を超えない
+function couponDiscountFor(
+  coupon: CouponTerms,
+  totalDrinks: number,
+  amount: number,
+  rules: PricingRules
+): number {
+  let discount = 0;
+  if (coupon.kind === "fixed") {
+    discount = coupon.value;
+  } else if (coupon.kind === "percent") {
+    // 1円未満は切り捨て
+    discount = Math.floor((amount * coupon.value) / 10000) * 100;
+  } else if (coupon.kind === "free-drink") {
+    // 指定杯数を差し引いた杯数で計算した金額との差額
+    discount = setPricing(totalDrinks, rules) - setPricing(Math.max(0, totalDrinks - coupon.value), rules);
+  }
+  return Math.min(discount, coupon.maxDiscountAmount ?? Infinity, amount);
+}
+
+function isDrink(line: PricingLine): boolean {
+  return line.menuItem.productType === "drink";
+}
+
+function isAdjusted(line: PricingLine): boolean {
+  return line.adjustment != null;
+}
+
+// 調整がなかった場合の明細ごとの金額（クーポンなし）
+function originalLinePrices(lines: PricingLine[], rules: PricingRules): number[] {
+  return allocateLinePrices(
+    lines.map((line) => ({ menuItem: line.menuItem, quantity: line.quantity, options: line.options })),
+    { rules }
+  );
+}
+
+// 注文全体の料金内訳を計算する（フロント・サーバー共通）
+export function quotePrice(lines: PricingLine[], options: PricingOptions = {}): PriceQuote {
+  const rules = options.rules ?? selectPricingRules();
+
+  // 調整した明細は調整後の金額で固定し、残りの明細だけで通常どおり計算する
+  if (lines.some(isAdjusted)) {
+    const quote = quotePrice(lines.filter((line) => !isAdjusted(line)), { ...options, rules });
+    const originals = originalLinePrices(lines, rules);
+    const adjustments: AdjustmentLine[] = [];
+    for (let index = 0; index < lines.length; index++) {
+      const { menuItem, quantity, adjustment } = lines[index];
+      if (!adjustment) continue;
+      adjustments.push({
+        name: menuItem.name,
+        kind: adjustment.kind,
+        reason: adjustment.reason,
+        approvedBy: adjustment.approvedBy,
+        quantity,
+        originalAmount: originals[index],
+        amount: adjustedAmount(adjustment),
+      });
+    }
+    const adjustedTotal = adjustments.reduce((total, line) => total + line.amount, 0);
+    return {
+      ...quote,
+      adjustments,
+      adjustmentTotal: adjustments.reduce((total, line) => total + line.originalAmount - line.amount, 0),
+      total: quote.total + adjustedTotal,
+    };
+  }
+
+  const { setSize, tierPrices, categoryDiscounts } = rules;
+  const drinkLines = lines.filter(isDrink);
+
+  // すべてのドリンクの数を数える（物販・デポジットはセットの杯数に含めない）
+  const totalDrinks = drinkLines.reduce((total, line) => total + line.quantity, 0);
+
+  // セット価格 + 端数の杯数の価格
+  const setCount = Math.floor(totalDrinks / setSize);
+  const remainder = totalDrinks % setSize;
+  const setPrice = tierPrices[setSize - 1];
+  const remainderPrice = remainder > 0 ? tierPrices[remainder - 1] : 0;
+
+  // カテゴリごとの値引き（例: ソフトドリンクは1杯につき200円引き）
+  const discountQuantities = new Map<string, number>();
+  for (const line of drinkLines) {
+    const { category } = line.menuItem;
+    if (categoryDiscounts[category]) {
+      discountQuantities.set(category, (discountQuantities.get(category) ?? 0) + line.quantity);
+    }
+  }
+  const discounts = Array.from(discountQuantities, ([category, quantity]) => ({
+    category,
+    quantity,
+    unitDiscount: categoryDiscounts[category],
+    amount: categoryDiscounts[category] * quantity,
+  }));
+
+  const price = setCount * setPrice + remainderPrice;
+  const discount = discounts.reduce((total, line) => total + line.amount, 0);
+  // マイナスにならないように0以上を保証
+  const drinkAmount = Math.max(0, price - discount);
+
+  // 前売りチケットで引き換えた杯数は支払い済み。引き換えた杯数を除いた杯数で計算した金額との差額を充当する
+  const ticketDrinks = Math.min(options.ticketDrinks ?? 0, totalDrinks);
+  const ticketAmount = Math.min(price - setPricing(totalDrinks - ticketDrinks, rules), drinkAmount);
+
+  // 物販・デポジットは各商品の価格で計算する
+  const productLines = lines
+    .filter((line) => !isDrink(line))
+    .map((line) => ({
+      name: line.menuItem.name,
+      productType: line.menuItem.productType,
+      quantity: line.quantity,
+      unitPrice: line.menuItem.price,
+      amount: line.menuItem.price * line.quantity,
+    }));
+  const retailAmount = productLines
+    .filter((line) => line.productType === "retail")
+    .reduce((total, line) => total + line.amount, 0);
+  const depositAmount = productLines
+    .filter((line) => line.productType === "deposit")
+    .reduce((total, line) => total + line.amount, 0);
+
+  // オプションの追加料金。前売りチケットでは支払い済みにならない
+  const optionLines = lines.flatMap((line) =>
+    (line.options ?? [])
+      .filter((option) => option.priceDelta > 0)
+      .map((option) => ({
+        name: `${line.menuItem.name} ${option.name}`,
+        quantity: line.quantity,
+        unitPrice: option.priceDelta,
+        amount: option.priceDelta * line.quantity,
+      }))
+  );
+  const optionAmount = optionLines.reduce((total, line) => total + line.amount, 0);
+
+  // クーポンはセット価格・カテゴリ値引き・チケットの後に適用する。デポジットは値引きの対象外
+  const coupon = options.coupon ?? null;
+  const couponDiscount = coupon
+    ? couponDiscountFor(coupon, totalDrinks - ticketDrinks, drinkAmount - ticketAmount + optionAmount + retailAmount, rules)
+    : 0;
+
+  return {
+    totalDrinks,
+    setSize,
+    setCount,
+    setPrice,
+    remainder,
+    remainderPrice,
+    pricingRule: { id: rules.id, name: rules.name, window: rules.window },
+    discounts,
+    productLines,
+    optionLines,
+    coupon,
+    couponDiscount,
+    ticketDrinks,
+    ticketAmount,
+    adjustments: [],
+    adjustmentTotal: 0,
+    total: drinkAmount - ticketAmount + optionAmount + retailAmount + depositAmount - couponDiscount,
+  };
+}
+
+// 注文全体の金額を計算する
+export function calculatePrice(lines: PricingLine[], options: PricingOptions = {}): number {
+  return quotePrice(lines, options).total;
+}
+
+// 1円（金額はすべて100倍した値）。按分した明細の金額が1円未満の端数を持たないようにする
+const YEN = 100;
+
+// amount を weights に比例して1円単位で按分する。割り切れない分は先頭から1円ずつ上乗せし、各要素は weight を超えない
+function allocateProportionally(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map((weight) => (total > 0 ? Math.floor((amount * weight) / total / YEN) * YEN : 0));
+  let leftover = amount - shares.reduce((sum, share) => sum + share, 0);
+  // 1円ずつ配りきれない分（金額が1円単位でない場合）は weight の上限まで上乗せする
+  for (const step of [YEN, Infinity]) {
+    for (let index = 0; index < shares.length && leftover > 0; index++) {
+      const extra = Math.min(leftover, step, weights[index] - shares[index]);
+      shares[index] += extra;
+      leftover -= extra;
+    }
+  }
+  return shares;
+}
+
+// セット価格を各ドリンクの明細に按分し、カテゴリ値引きをその明細に帰属させる。
+// 物販・デポジットは各商品の価格のまま。オプションの追加料金はその明細に加える。前売りチケットの充当額はドリンクの明細の金額に比例して按分する。
+// クーポンの値引きはデポジット以外の明細の金額に比例して按分する。
+// コンプ・価格変更した明細は調整後の金額のまま按分の対象にしない。
+// 戻り値は lines と同じ順序の明細ごとの金額（数量分の合計）で、合計は quotePrice の total と一致する
+export function allocateLinePrices(lines: PricingLine[], options: PricingOptions = {}): number[] {
+  const rules = options.rules ?? selectPricingRules();
+  if (lines.some(isAdjusted)) {
+    const regularPrices = allocateLinePrices(lines.filter((line) => !isAdjusted(line)), { ...options, rules });
+    let next = 0;
+    return lines.map((line) => (line.adjustment ? adjustedAmount(line.adjustment) : regularPrices[next++]));
+  }
+  const quote = quotePrice(lines, { ...options, rules });
+
+  // 値引き前の金額を1杯ずつ1円単位で均等に割り振り、割り切れない分は先頭の杯から1円ずつ上乗せする
+  const gross = quote.setCount * quote.setPrice + quote.remainderPrice;
+  const unitPrice = quote.totalDrinks > 0 ? Math.floor(gross / YEN / quote.totalDrinks) * YEN : 0;
+  let leftover = gross - unitPrice * quote.totalDrinks;
+
+  const netPrices = lines.map((line) => {
+    const optionAmount = optionPriceDelta(line.options) * line.quantity;
+    if (!isDrink(line)) return line.menuItem.price * line.quantity + optionAmount;
+    const extra = Math.min(leftover, line.quantity * YEN);
+    leftover -= extra;
+    const discount = (rules.categoryDiscounts[line.menuItem.category] ?? 0) * line.quantity;
+    return Math.max(0, unitPrice * line.quantity + extra - discount) + optionAmount;
+  });
+  const ticketShares = allocateProportionally(
+    quote.ticketAmount,
+    netPrices.map((price, index) => (isDrink(lines[index]) ? price : 0))
+  );
+  const prices = netPrices.map((price, index) => price - ticketShares[index]);
+  if (quote.couponDiscount === 0) return prices;
+
+  const couponShares = allocateProportionally(
+    quote.couponDiscount,
+    prices.map((price, index) => (lines[index].menuItem.productType === "deposit" ? 0 : price))
+  );
+  return prices.map((price, index) => price - couponShares[index]);
+}
+
+export interface OrderPricingLine extends PricingLine {
+  menuItem: PricingLine["menuItem"] & Pick<MenuItem, "taxRate">;
+}
+
+// 注文に保存する金額一式（合計・明細ごとの金額・税率ごとの消費税）
+export interface OrderPricing extends OrderTaxAmounts {
+  pricingRuleId: string;
+  totalAmount: number;
+  couponDiscount: number;
+  adjustmentAmount: number;
+  ticketDrinks: number;
+  ticketAmount: number;
+  // totalAmount のうちリユースカップなどのデポジット（売上とは別に集計する）
+  depositAmount: number;
+  linePrices: number[];
+  // 調整した明細の調整前の金額（調整していない明細は null）
+  originalPrices: (number | null)[];
+}
+
+export function priceOrder(lines: OrderPricingLine[], options: PricingOptions = {}): OrderPricing {
+  const rules = options.rules ?? selectPricingRules();
+  const quote = quotePrice(lines, { ...options, rules });
+  const linePrices = allocateLinePrices(lines, { ...options, rules });
+  const originals = lines.some(isAdjusted) ? originalLinePrices(lines, rules) : [];
+  // デポジットは返却時に返す預り金なので消費税の対象外
+  const taxes = calculateTaxBreakdown(
+    lines.flatMap((line, index) =>
+      line.menuItem.productType === "deposit" ? [] : [{ taxRate: line.menuItem.taxRate, amount: linePrices[index] }]
+    )
+  );
+  return {
+    pricingRuleId: quote.pricingRule.id,
+    totalAmount: quote.total,
+    couponDiscount: quote.couponDiscount,
+    adjustmentAmount: quote.adjustmentTotal,
+    ticketDrinks: quote.ticketDrinks,
+    ticketAmount: quote.ticketAmount,
+    depositAmount: linePrices.reduce(
+      (total, price, index) => (lines[index].menuItem.productType === "deposit" ? total + price : total),
+      0
+    ),
+    linePrices,
+    originalPrices: lines.map((line, index) => (isAdjusted(line) ? originals[index] : null)),
+    ...toOrderTaxAmounts(taxes),
+  };
+}
@@ -0,0 +1,28 @@
+import type { PricingRules } from "./pricing";
+
+// イベントごとの料金設定。金額はすべて100倍した値（セント表記）。
+export const PRICING_RULES: PricingRules = {
+  id: "standard",
+  name: "通常料金",
+  // 3杯でセット価格
+  setSize: 3,
+  // n杯目までの合計金額: 1杯700円、2杯1200円、3杯1500円
+  tierPrices: [70000, 120000, 150000],
+  // カテゴリごとの1杯あたりの値引き額
+  categoryDiscounts: {
+    "ソフトドリンク": 20000,
+  },
+};
+
+// 時間帯限定の料金設定。上から順に、時間帯（店舗の現地時刻）が一致した最初の設定が通常料金の代わりに使われる。
+// 注文には適用した設定の id が記録され、後から編集しても同じ設定で再計算される。
+// 例:
+//   {
+//     id: "happy-hour",
+//     name: "ハッピーアワー",
+//     window: { start: "15:00", end: "16:00" },
+//     setSize: 3,
+//     tierPrices: [60000, 100000, 120000],
+//     categoryDiscounts: { "ソフトドリンク": 20000 },
+//   },
+export const TIME_WINDOW_PRICING_RULES: PricingRules[] = [];
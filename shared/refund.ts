@@ -0,0 +1,115 @@
+import type { OrderItem, OrderStatus, OrderWithItems, RefundLine, RefundReason, RefundRequest } from "./schema";
+import { isCompletedStatus } from "./orderStatus";
+import { calculateTaxBreakdown, toOrderTaxAmounts, type OrderTaxAmounts, type TaxLine } from "./tax";
+
+export const refundReasonLabels: Record<RefundReason, string> = {
+  "customer-request": "お客様都合",
+  "wrong-order": "注文間違い",
+  quality: "品質不良",
+  other: "その他",
+};
+
+// 返金できない理由
+export type RefundRejection = "unknown-line" | "exceeds-quantity" | "nothing-to-refund" | "charge-refund-failed";
+
+export const refundRejectionMessages: Record<RefundRejection, string> = {
+  "unknown-line": "この注文にない明細が指定されています",
+  "exceeds-quantity": "返金済みの数量を超えています",
+  "nothing-to-refund": "返金できる明細がありません",
+  "charge-refund-failed": "決済端末で取引を取り消せませんでした",
+};
+
+// 返金の明細と金額。金額はすべてマイナス（元の注文を打ち消す取引として記録する）
+export interface RefundCalculation extends OrderTaxAmounts {
+  amount: number;
+  lines: Array<{ orderItemId: number; quantity: number; amount: number }>;
+}
+
+// 返金済み数量の集計に必要な返金の情報
+type RefundsWithLines = Array<{ lines: Pick<RefundLine, "orderItemId" | "quantity" | "amount">[] }>;
+
+// 明細ごとの返金済み数量と金額
+function refundedByLine(refunds: RefundsWithLines): Map<number, { quantity: number; amount: number }> {
+  const refunded = new Map<number, { quantity: number; amount: number }>();
+  for (const refund of refunds) {
+    for (const line of refund.lines) {
+      const current = refunded.get(line.orderItemId) ?? { quantity: 0, amount: 0 };
+      refunded.set(line.orderItemId, {
+        quantity: current.quantity + line.quantity,
+        amount: current.amount - line.amount,
+      });
+    }
+  }
+  return refunded;
+}
+
+// 明細ごとのまだ返金していない数量
+export function refundableQuantities(order: {
+  items: Pick<OrderItem, "id" | "quantity">[];
+  refunds: RefundsWithLines;
+}): Map<number, number> {
+  const refunded = refundedByLine(order.refunds);
+  return new Map(order.items.map((item) => [item.id, item.quantity - (refunded.get(item.id)?.quantity ?? 0)]));
+}
+
+// 返金で対応する注文。提供前の注文は編集・取消で対応するが、支払いのある注文は取り消せないため提供前でも返金する
+export function acceptsRefund(status: OrderStatus, payments: unknown[]): boolean {
+  return isCompletedStatus(status) || (status !== "cancelled" && payments.length > 0);
+}
+
+// 返金額の合計（マイナス）
+export function refundTotal(refunds: Array<{ amount: number }>): number {
+  return refunds.reduce((total, refund) => total + refund.amount, 0);
+}
+
+// 返金額を計算する。明細の金額（セット価格の按分・値引き後）を数量で割って返金し、
+// 残りの数量をすべて返金する場合は返金済みとの差額を返して合計が元の金額と一致するようにする
+export function calculateRefund(
+  order: Pick<OrderWithItems, "items" | "refunds">,
+  requestedLines?: RefundRequest["lines"]
+): RefundCalculation | { rejection: RefundRejection } {
+  const refunded = refundedByLine(order.refunds);
+  const remaining = refundableQuantities(order);
+  const requests =
+    requestedLines ??
+    order.items
+      .filter((item) => (remaining.get(item.id) ?? 0) > 0)
+      .map((item) => ({ orderItemId: item.id, quantity: remaining.get(item.id)! }));
+
+  const lines: RefundCalculation["lines"] = [];
+  const taxLines: TaxLine[] = [];
+  for (const request of requests) {
+    const item = order.items.find((orderItem) => orderItem.id === request.orderItemId);
+    if (!item) return { rejection: "unknown-line" };
+    const left = remaining.get(item.id) ?? 0;
+    if (request.quantity > left) return { rejection: "exceeds-quantity" };
+
+    const amount =
+      request.quantity === left
+        ? item.price - (refunded.get(item.id)?.amount ?? 0)
+        : Math.floor((item.price * request.quantity) / item.quantity / 100) * 100;
+    // 同じ明細を複数回指定された場合に備えて残数を減らしておく
+    remaining.set(item.id, left - request.quantity);
+    refunded.set(item.id, {
+      quantity: (refunded.get(item.id)?.quantity ?? 0) + request.quantity,
+      amount: (refunded.get(item.id)?.amount ?? 0) + amount,
+    });
+    lines.push({ orderItemId: item.id, quantity: request.quantity, amount: -amount });
+    // デポジットは消費税の対象外（注文時と同じ）
+    if (item.menuItem.productType !== "deposit") {
+      taxLines.push({ taxRate: item.menuItem.taxRate, amount });
+    }
+  }
+  if (lines.length === 0) return { rejection: "nothing-to-refund" };
+
+  // 消費税は返金分の税率ごとの合計から計算し、符号を反転する
+  const taxes = toOrderTaxAmounts(calculateTaxBreakdown(taxLines));
+  return {
+    amount: lines.reduce((total, line) => total + line.amount, 0),
+    lines,
+    taxableAmount10: -taxes.taxableAmount10,
+    taxAmount10: -taxes.taxAmount10,
+    taxableAmount8: -taxes.taxableAmount8,
+    taxAmount8: -taxes.taxAmount8,
+  };
+}
@@ -0,0 +1,91 @@
+import type { Payment, RegisterCloseRequest, InsertRegisterClose } from "./schema";
+import { PaymentMethod } from "./schema";
+
+// 金種（value は100倍した金額）
+export const DENOMINATIONS = [
+  { value: 1000000, label: "1万円札" },
+  { value: 500000, label: "5千円札" },
+  { value: 200000, label: "2千円札" },
+  { value: 100000, label: "千円札" },
+  { value: 50000, label: "500円玉" },
+  { value: 10000, label: "100円玉" },
+  { value: 5000, label: "50円玉" },
+  { value: 1000, label: "10円玉" },
+  { value: 500, label: "5円玉" },
+  { value: 100, label: "1円玉" },
+];
+
+// 金種ごとの枚数から現金の合計を求める
+export function countCash(denominationCounts: Record<string, number>): number {
+  return DENOMINATIONS.reduce(
+    (total, denomination) => total + denomination.value * (denominationCounts[denomination.value] ?? 0),
+    0
+  );
+}
+
+// 締めの対象期間（前回の締め以降）の取引
+export interface RegisterActivity {
+  orders: Array<{ totalAmount: number; depositAmount: number }>;
+  payments: Array<Pick<Payment, "method" | "amount">>;
+  // method はお客様に返した方法（現金はドロアーから返している）
+  refunds: Array<{ amount: number; method: string }>;
+  // カップ返却で現金で返したデポジット
+  cupReturns: Array<{ amount: number }>;
+}
+
+// 締めの時点での売上・支払方法ごとの合計（現金を数える前に画面に表示する）
+export interface RegisterSummary {
+  periodStart: Date | null;
+  paymentTotals: Record<string, number>;
+  cashSales: number;
+  salesTotal: number;
+  refundTotal: number;
+  cashRefundTotal: number;
+  depositTotal: number;
+  depositRefundTotal: number;
+  orderCount: number;
+}
+
+export function isInPeriod(date: Date | string, periodStart: Date | null): boolean {
+  return !periodStart || new Date(date) > periodStart;
+}
+
+export function summarizeRegister(activity: RegisterActivity, periodStart: Date | null): RegisterSummary {
+  const paymentTotals: Record<string, number> = {};
+  for (const method of PaymentMethod.options) {
+    paymentTotals[method] = activity.payments
+      .filter((payment) => payment.method === method)
+      .reduce((total, payment) => total + payment.amount, 0);
+  }
+  return {
+    periodStart,
+    paymentTotals,
+    // お釣りは受け取った金額から既に差し引かれているので、支払額の合計がドロアーに増えた現金
+    cashSales: paymentTotals.cash,
+    // デポジットは預り金なので売上に含めない
+    salesTotal: activity.orders.reduce((total, order) => total + order.totalAmount - order.depositAmount, 0),
+    refundTotal: activity.refunds.reduce((total, refund) => total + refund.amount, 0),
+    cashRefundTotal: activity.refunds
+      .filter((refund) => refund.method === "cash")
+      .reduce((total, refund) => total + refund.amount, 0),
+    depositTotal: activity.orders.reduce((total, order) => total + order.depositAmount, 0),
+    depositRefundTotal: activity.cupReturns.reduce((total, cupReturn) => total + cupReturn.amount, 0),
+    orderCount: activity.orders.length,
+  };
+}
+
+// 数えた現金と記録上の現金を突き合わせて、保存する締めの内容を作る
+export function closeRegister(summary: RegisterSummary, request: RegisterCloseRequest): InsertRegisterClose {
+  const countedCash = countCash(request.denominationCounts);
+  // 現金での返金とカップ返却のデポジットはドロアーの現金から返している（どちらもマイナスの金額）
+  const expectedCash = request.openingFloat + summary.cashSales + summary.cashRefundTotal + summary.depositRefundTotal;
+  return {
+    ...summary,
+    openingFloat: request.openingFloat,
+    denominationCounts: request.denominationCounts,
+    countedCash,
+    expectedCash,
+    difference: countedCash - expectedCash,
+    note: request.note || null,
+  };
+}
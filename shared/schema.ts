@@ -1,7 +1,38 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Option groups offered with a menu item (ice amount, soda or rock, extra shot)
+export const menuOptionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  priceDelta: z.number().int().nonnegative(), // Added to the unit price, in cents/sen
+});
+export type MenuOption = z.infer<typeof menuOptionSchema>;
+
+export const menuOptionGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  required: z.boolean(), // Required groups take exactly one option, optional groups at most one
+  options: z.array(menuOptionSchema).min(1),
+});
+export type MenuOptionGroup = z.infer<typeof menuOptionGroupSchema>;
+
+// Option chosen at the register, sent by group and option id
+export const optionSelectionSchema = z.object({
+  groupId: z.string(),
+  optionId: z.string(),
+});
+export type OptionSelection = z.infer<typeof optionSelectionSchema>;
+
+// Option stored on an order line. Names and price are copied from the menu so later menu changes don't rewrite old orders
+export const selectedOptionSchema = optionSelectionSchema.extend({
+  groupName: z.string(),
+  name: z.string(),
+  priceDelta: z.number().int().nonnegative(),
+});
+export type SelectedOption = z.infer<typeof selectedOptionSchema>;
+
 // Menu item schema
 export const menuItems = pgTable("menu_items", {
   id: serial("id").primaryKey(),
@@ -9,28 +40,69 @@ export const menuItems = pgTable("menu_items", {
   price: integer("price").notNull(), // Price in cents/sen to avoid floating point issues
   imageUrl: text("image_url").notNull(),
   category: text("category").notNull(), // main, side, drink, etc.
+  taxRate: integer("tax_rate").notNull().default(10), // Consumption tax rate in percent (10 or 8)
+  productType: text("product_type").notNull().default("drink"), // drink, retail, deposit
+  optionGroups: jsonb("option_groups").$type<MenuOptionGroup[]>().notNull().default([]),
 });
 
+// Product types: only drinks count toward set pricing
+export const ProductType = z.enum(["drink", "retail", "deposit"]);
+export type ProductType = z.infer<typeof ProductType>;
+
 export const insertMenuItemSchema = createInsertSchema(menuItems).pick({
   name: true,
   price: true,
   imageUrl: true,
   category: true,
+  taxRate: true,
+  productType: true,
+  optionGroups: true,
+}).extend({
+  productType: ProductType.optional(),
+  optionGroups: z.array(menuOptionGroupSchema).optional(),
 });
 
 // Order schema
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
-  orderNumber: text("order_number").notNull().unique(),
-  status: text("status").notNull().default("new"), // new, in-progress, ready
+  orderNumber: text("order_number").notNull(), // Assigned by the server, unique within a business day
+  businessDate: text("business_date").notNull(), // yyyy-MM-dd in the store's time zone, switching at ORDER_NUMBERING.dayStartHour
+  status: text("status").notNull().default("new"), // new, in-progress, ready, picked-up, cancelled
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-  totalAmount: integer("total_amount").notNull(), // Total in cents/sen
+  totalAmount: integer("total_amount").notNull(), // Total in cents/sen (tax included)
+  // Tax-included totals and included tax per rate, for qualified invoices
+  taxableAmount10: integer("taxable_amount_10").notNull().default(0),
+  taxAmount10: integer("tax_amount_10").notNull().default(0),
+  taxableAmount8: integer("taxable_amount_8").notNull().default(0),
+  taxAmount8: integer("tax_amount_8").notNull().default(0),
+  pricingRuleId: text("pricing_rule_id").notNull().default("standard"), // Pricing rule active when the order was placed
+  adjustmentAmount: integer("adjustment_amount").notNull().default(0), // Value given away by comps/overrides, excluded from totalAmount
+  ticketAmount: integer("ticket_amount").notNull().default(0), // Drinks already paid for with a prepaid ticket, excluded from totalAmount
+  depositAmount: integer("deposit_amount").notNull().default(0), // Reusable cup deposits, included in totalAmount but not in sales
+  cancelReason: text("cancel_reason"), // customer-request, wrong-order, duplicate, sold-out, other (null unless cancelled)
+  cancelledAt: timestamp("cancelled_at"),
+  note: text("note"), // Free-text instructions for the whole order, shown on the kitchen card
+}, (table) => [unique("orders_business_date_order_number_unique").on(table.businessDate, table.orderNumber)]);
+
+// Order number sequence per business day (or a single "all" row when numbers don't reset).
+// Incremented atomically by the next_order_number() function in migrations/next_order_number.sql
+export const orderNumberSequences = pgTable("order_number_sequences", {
+  sequenceKey: text("sequence_key").primaryKey(),
+  lastValue: integer("last_value").notNull(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders).pick({
-  orderNumber: true,
   totalAmount: true,
+  taxableAmount10: true,
+  taxAmount10: true,
+  taxableAmount8: true,
+  taxAmount8: true,
+  pricingRuleId: true,
+  adjustmentAmount: true,
+  ticketAmount: true,
+  depositAmount: true,
+  note: true,
 });
 
 // Order item schema (joining orders and menu items)
@@ -39,7 +111,15 @@ export const orderItems = pgTable("order_items", {
   orderId: integer("order_id").notNull(),
   menuItemId: integer("menu_item_id").notNull(),
   quantity: integer("quantity").notNull(),
-  price: integer("price").notNull(), // Price at the time of order
+  price: integer("price").notNull(), // Line total at the time of order (set price allocated, discounts applied)
+  // Staff comp or manual price override (null when the line is priced normally)
+  adjustmentKind: text("adjustment_kind"), // comp, override
+  adjustmentReason: text("adjustment_reason"), // staff, apology, other
+  adjustmentApprovedBy: text("adjustment_approved_by"),
+  originalPrice: integer("original_price"), // What the line would have cost without the adjustment
+  completedQuantity: integer("completed_quantity").notNull().default(0), // Units the bar has finished (ticked off on the kitchen card)
+  note: text("note"), // Free-text instructions for this line only
+  options: jsonb("options").$type<SelectedOption[]>().notNull().default([]), // Modifiers chosen for this line, priced into price
 });
 
 export const insertOrderItemSchema = createInsertSchema(orderItems).pick({
@@ -47,12 +127,301 @@ export const insertOrderItemSchema = createInsertSchema(orderItems).pick({
   menuItemId: true,
   quantity: true,
   price: true,
+  adjustmentKind: true,
+  adjustmentReason: true,
+  adjustmentApprovedBy: true,
+  originalPrice: true,
+  note: true,
+  options: true,
+}).extend({
+  options: z.array(selectedOptionSchema).optional(),
+});
+
+// Notes entered at the register ("氷少なめ", "持ち帰り"). Blank notes are stored as null
+export const orderNoteSchema = z
+  .string()
+  .trim()
+  .max(200)
+  .nullish()
+  .transform((note) => note || null);
+
+// Kitchen progress on one order line
+export const itemCompletionRequestSchema = z.object({
+  completedQuantity: z.number().int().nonnegative(),
+});
+export type ItemCompletionRequest = z.infer<typeof itemCompletionRequestSchema>;
+
+// Comps and manual price overrides entered at the register
+export const AdjustmentKind = z.enum(["comp", "override"]);
+export type AdjustmentKind = z.infer<typeof AdjustmentKind>;
+
+export const AdjustmentReason = z.enum(["staff", "apology", "other"]);
+export type AdjustmentReason = z.infer<typeof AdjustmentReason>;
+
+export const lineAdjustmentSchema = z
+  .object({
+    kind: AdjustmentKind,
+    amount: z.number().int().nonnegative().optional(), // Line total for overrides, in cents/sen
+    reason: AdjustmentReason,
+    approvedBy: z.string().trim().min(1),
+  })
+  .refine((adjustment) => adjustment.kind === "comp" || adjustment.amount !== undefined, {
+    message: "Override amount is required",
+    path: ["amount"],
+  });
+export type LineAdjustment = z.infer<typeof lineAdjustmentSchema>;
+
+// Coupon schema (promo codes handed out on flyers)
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  kind: text("kind").notNull(), // fixed, percent, free-drink
+  value: integer("value").notNull(), // fixed: amount in cents/sen, percent: %, free-drink: number of drinks
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  usageLimit: integer("usage_limit"), // Total redemptions allowed, null for unlimited
+  maxDiscountAmount: integer("max_discount_amount"), // Per-order cap in cents/sen, null for no cap
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const CouponKind = z.enum(["fixed", "percent", "free-drink"]);
+export type CouponKind = z.infer<typeof CouponKind>;
+
+export const insertCouponSchema = createInsertSchema(coupons)
+  .pick({
+    code: true,
+    kind: true,
+    value: true,
+    validFrom: true,
+    validUntil: true,
+    usageLimit: true,
+    maxDiscountAmount: true,
+  })
+  .extend({
+    code: z.string().trim().toUpperCase().min(1),
+    kind: CouponKind,
+    value: z.number().int().positive(),
+    validFrom: z.coerce.date().nullish(),
+    validUntil: z.coerce.date().nullish(),
+  });
+
+// Coupon redemption schema (which coupon discounted which order)
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: serial("id").primaryKey(),
+  couponId: integer("coupon_id").notNull(),
+  orderId: integer("order_id").notNull().unique(),
+  discountAmount: integer("discount_amount").notNull(), // Discount in cents/sen
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Status type for orders
-export const OrderStatus = z.enum(["in-progress", "ready"]);
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).pick({
+  couponId: true,
+  orderId: true,
+  discountAmount: true,
+});
+
+// Prepaid drink ticket schema (前売りチケット; the drinks were paid for when the ticket was sold)
+export const tickets = pgTable("tickets", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Printed on the ticket as a QR code
+  drinks: integer("drinks").notNull(), // Drinks the ticket was sold for
+  remainingDrinks: integer("remaining_drinks").notNull(),
+  price: integer("price").notNull(), // Amount paid for the ticket in cents/sen
+  validUntil: timestamp("valid_until"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Ticket issue request: count tickets with the same terms are issued at once
+export const ticketIssueRequestSchema = z.object({
+  drinks: z.number().int().positive(),
+  price: z.number().int().nonnegative(),
+  validUntil: z.coerce.date().nullish(),
+  count: z.number().int().min(1).max(100).default(1),
+});
+export type TicketIssueRequest = z.infer<typeof ticketIssueRequestSchema>;
+
+// Ticket redemption schema (drinks taken from a ticket for an order)
+export const ticketRedemptions = pgTable("ticket_redemptions", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  orderId: integer("order_id").notNull().unique(),
+  drinks: integer("drinks").notNull(),
+  amount: integer("amount").notNull(), // Value of the redeemed drinks in cents/sen (orders.ticketAmount)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTicketRedemptionSchema = createInsertSchema(ticketRedemptions).pick({
+  ticketId: true,
+  orderId: true,
+  drinks: true,
+  amount: true,
+});
+
+// Cup return schema (reusable cups handed back at the register; the deposit is refunded in cash)
+export const cupReturns = pgTable("cup_returns", {
+  id: serial("id").primaryKey(),
+  cups: integer("cups").notNull(),
+  amount: integer("amount").notNull(), // Deposit refunded, negative like refunds.amount
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const cupReturnRequestSchema = z.object({
+  cups: z.number().int().positive(),
+});
+export type CupReturnRequest = z.infer<typeof cupReturnRequestSchema>;
+
+// Refund schema (negative transactions linked to the original order; the order itself is kept as sold)
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  amount: integer("amount").notNull(), // Negative amount in cents/sen
+  reason: text("reason").notNull(), // customer-request, wrong-order, quality, other
+  method: text("method").notNull().default("cash"), // How the money was returned: cash, qr, card, ticket
+  taxableAmount10: integer("taxable_amount_10").notNull().default(0), // Negative, like amount
+  taxAmount10: integer("tax_amount_10").notNull().default(0),
+  taxableAmount8: integer("taxable_amount_8").notNull().default(0),
+  taxAmount8: integer("tax_amount_8").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).pick({
+  orderId: true,
+  amount: true,
+  reason: true,
+  method: true,
+  taxableAmount10: true,
+  taxAmount10: true,
+  taxableAmount8: true,
+  taxAmount8: true,
+});
+
+// Which order lines (and how many of each) a refund covers
+export const refundLines = pgTable("refund_lines", {
+  id: serial("id").primaryKey(),
+  refundId: integer("refund_id").notNull(),
+  orderItemId: integer("order_item_id").notNull(),
+  quantity: integer("quantity").notNull(),
+  amount: integer("amount").notNull(), // Negative amount in cents/sen
+});
+
+export const insertRefundLineSchema = createInsertSchema(refundLines).pick({
+  refundId: true,
+  orderItemId: true,
+  quantity: true,
+  amount: true,
+});
+
+export const RefundReason = z.enum(["customer-request", "wrong-order", "quality", "other"]);
+export type RefundReason = z.infer<typeof RefundReason>;
+
+// Payment schema (how an order was paid)
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  method: text("method").notNull(), // cash, qr, card, ticket
+  amount: integer("amount").notNull(), // Amount applied to the order in cents/sen
+  tenderedAmount: integer("tendered_amount").notNull(), // Amount handed over by the customer
+  changeAmount: integer("change_amount").notNull().default(0), // Change given back (cash only)
+  providerChargeId: text("provider_charge_id"), // Charge on the payment terminal (QR / card), null for manual entry
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).pick({
+  orderId: true,
+  method: true,
+  amount: true,
+  tenderedAmount: true,
+  changeAmount: true,
+  providerChargeId: true,
+});
+
+export const PaymentMethod = z.enum(["cash", "qr", "card", "ticket"]);
+export type PaymentMethod = z.infer<typeof PaymentMethod>;
+
+// Payment request from the register. amount is the part of the balance paid with this method
+// (defaults to the whole remaining balance), tenderedAmount is only needed for cash
+export const paymentRequestSchema = z.object({
+  method: PaymentMethod,
+  amount: z.number().int().positive().optional(),
+  tenderedAmount: z.number().int().nonnegative().optional(),
+});
+export type PaymentRequest = z.infer<typeof paymentRequestSchema>;
+
+// Refund request: omit lines to refund everything not refunded yet.
+// method is how the money went back to the customer (cash comes out of the drawer)
+export const refundRequestSchema = z.object({
+  reason: RefundReason,
+  method: PaymentMethod.default("cash"),
+  lines: z
+    .array(
+      z.object({
+        orderItemId: z.number(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1)
+    .optional(),
+});
+export type RefundRequest = z.infer<typeof refundRequestSchema>;
+
+// Register close schema (レジ締め: end-of-shift cash count and sales summary)
+export const registerCloses = pgTable("register_closes", {
+  id: serial("id").primaryKey(),
+  periodStart: timestamp("period_start"), // Previous close, null for the first one
+  closedAt: timestamp("closed_at").notNull().defaultNow(),
+  openingFloat: integer("opening_float").notNull(), // Change fund put in the drawer at the start of the shift
+  denominationCounts: jsonb("denomination_counts").$type<Record<string, number>>().notNull(), // Denomination value -> count
+  countedCash: integer("counted_cash").notNull(),
+  cashSales: integer("cash_sales").notNull(), // Cash payments recorded in the period
+  expectedCash: integer("expected_cash").notNull(), // openingFloat + cashSales + cashRefundTotal + depositRefundTotal
+  difference: integer("difference").notNull(), // countedCash - expectedCash (negative when short)
+  paymentTotals: jsonb("payment_totals").$type<Record<string, number>>().notNull(), // Payment method -> amount
+  salesTotal: integer("sales_total").notNull(), // Orders placed in the period, excluding cup deposits
+  refundTotal: integer("refund_total").notNull(), // Negative, like refunds.amount
+  cashRefundTotal: integer("cash_refund_total").notNull().default(0), // Refunds paid back from the drawer, negative
+  depositTotal: integer("deposit_total").notNull().default(0), // Cup deposits taken in the period
+  depositRefundTotal: integer("deposit_refund_total").notNull().default(0), // Cup deposits paid back in cash, negative
+  orderCount: integer("order_count").notNull(),
+  note: text("note"),
+});
+
+// Cash count entered at the register; everything else is computed on the server
+export const registerCloseRequestSchema = z.object({
+  openingFloat: z.number().int().nonnegative(),
+  denominationCounts: z.record(z.string(), z.number().int().nonnegative()),
+  note: z.string().trim().optional(),
+});
+export type RegisterCloseRequest = z.infer<typeof registerCloseRequestSchema>;
+
+// Order event schema (audit trail: who changed an order, when, and from what to what).
+// Not deleted with the order so that deleted orders can still be traced
+export const orderEvents = pgTable("order_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  type: text("type").notNull(), // created, status-changed, items-edited, cancelled, deleted
+  oldValue: jsonb("old_value").$type<Record<string, unknown>>(), // null for created
+  newValue: jsonb("new_value").$type<Record<string, unknown>>(), // null for deleted
+  deviceId: text("device_id"), // Register / kitchen device that made the change
+  staffName: text("staff_name"), // Staff member entered on that device, if any
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const OrderEventType = z.enum(["created", "status-changed", "items-edited", "cancelled", "deleted"]);
+export type OrderEventType = z.infer<typeof OrderEventType>;
+
+// Status type for orders (transitions are defined in orderStatus.ts)
+export const OrderStatus = z.enum(["new", "in-progress", "ready", "picked-up", "cancelled"]);
 export type OrderStatus = z.infer<typeof OrderStatus>;
 
+export const CancelReason = z.enum(["customer-request", "wrong-order", "duplicate", "sold-out", "other"]);
+export type CancelReason = z.infer<typeof CancelReason>;
+
+// Cancel request: the order is kept with status "cancelled" instead of being deleted
+export const cancelRequestSchema = z.object({
+  reason: CancelReason,
+});
+export type CancelRequest = z.infer<typeof cancelRequestSchema>;
+
 // Types for our schemas
 export type MenuItem = typeof menuItems.$inferSelect;
 export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
@@ -63,7 +432,43 @@ export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+
+export type Ticket = typeof tickets.$inferSelect;
+export type InsertTicket = Omit<Ticket, "id" | "createdAt">;
+
+export type TicketRedemption = typeof ticketRedemptions.$inferSelect;
+export type InsertTicketRedemption = z.infer<typeof insertTicketRedemptionSchema>;
+
+export type CupReturn = typeof cupReturns.$inferSelect;
+export type InsertCupReturn = Omit<CupReturn, "id" | "createdAt">;
+
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = Omit<OrderEvent, "id" | "createdAt">;
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+export type RegisterClose = typeof registerCloses.$inferSelect;
+export type InsertRegisterClose = Omit<RegisterClose, "id" | "closedAt">;
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+
+export type RefundLine = typeof refundLines.$inferSelect;
+export type InsertRefundLine = z.infer<typeof insertRefundLineSchema>;
+
 // Extended types for frontend use
+export type RefundWithLines = Refund & {
+  lines: RefundLine[];
+};
+
 export type OrderWithItems = Order & {
   items: (OrderItem & { menuItem: MenuItem })[];
+  payments: Payment[];
+  refunds: RefundWithLines[];
 };
@@ -0,0 +1,8 @@
+// 店舗情報。レシート・領収書に記載する
+export const STORE_INFO = {
+  name: "みかん酒",
+  // 適格請求書発行事業者の登録番号（T + 13桁）
+  invoiceRegistrationNumber: "T0000000000000",
+  // 時間帯限定の料金などで使う店舗の現地タイムゾーン
+  timeZone: "Asia/Tokyo",
+};
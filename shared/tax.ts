@@ -0,0 +1,57 @@
+// 消費税（内税）の計算。金額はすべて100倍した値（セント表記）
+
+// 標準税率10%・軽減税率8%
+export const TAX_RATES = [10, 8] as const;
+export type TaxRate = (typeof TAX_RATES)[number];
+
+export interface TaxLine {
+  taxRate: number;
+  amount: number; // 税込金額
+}
+
+// 適格請求書に記載する税率ごとの合計
+export interface TaxBreakdown {
+  rate: TaxRate;
+  taxableAmount: number; // 税率ごとの税込合計
+  taxAmount: number; // うち消費税額
+}
+
+// 注文に保存する税率ごとの金額
+export interface OrderTaxAmounts {
+  taxableAmount10: number;
+  taxAmount10: number;
+  taxableAmount8: number;
+  taxAmount8: number;
+}
+
+// 税込合計から消費税額を求める。1円未満は切り捨て
+function taxIncluded(amount: number, rate: number): number {
+  return Math.floor((amount * rate) / ((100 + rate) * 100)) * 100;
+}
+
+// 税率ごとに合計してから端数処理する（適格請求書の端数処理は税率ごとに1回）
+export function calculateTaxBreakdown(lines: TaxLine[]): TaxBreakdown[] {
+  return TAX_RATES.map((rate) => {
+    const taxableAmount = lines
+      .filter((line) => line.taxRate === rate)
+      .reduce((total, line) => total + line.amount, 0);
+    return { rate, taxableAmount, taxAmount: taxIncluded(taxableAmount, rate) };
+  });
+}
+
+export function toOrderTaxAmounts(breakdown: TaxBreakdown[]): OrderTaxAmounts {
+  const byRate = (rate: TaxRate) => breakdown.find((b) => b.rate === rate);
+  return {
+    taxableAmount10: byRate(10)?.taxableAmount ?? 0,
+    taxAmount10: byRate(10)?.taxAmount ?? 0,
+    taxableAmount8: byRate(8)?.taxableAmount ?? 0,
+    taxAmount8: byRate(8)?.taxAmount ?? 0,
+  };
+}
+
+export function fromOrderTaxAmounts(amounts: OrderTaxAmounts): TaxBreakdown[] {
+  return [
+    { rate: 10, taxableAmount: amounts.taxableAmount10, taxAmount: amounts.taxAmount10 },
+    { rate: 8, taxableAmount: amounts.taxableAmount8, taxAmount: amounts.taxAmount8 },
+  ];
+}
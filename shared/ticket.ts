@@ -0,0 +1,36 @@
+import type { Ticket } from "./schema";
+
+// 前売りチケットが使えない理由
+export type TicketRejection = "not-found" | "expired" | "used-up";
+
+export const ticketRejectionMessages: Record<TicketRejection, string> = {
+  "not-found": "チケットが見つかりません",
+  "expired": "このチケットは有効期限を過ぎています",
+  "used-up": "このチケットは使い切っています",
+};
+
+// 有効期限と残り杯数をチェックする。使える場合は null
+export function checkTicket(
+  ticket: Pick<Ticket, "remainingDrinks" | "validUntil"> | undefined,
+  now: Date = new Date()
+): TicketRejection | null {
+  if (!ticket) return "not-found";
+  if (ticket.validUntil && now > new Date(ticket.validUntil)) return "expired";
+  if (ticket.remainingDrinks <= 0) return "used-up";
+  return null;
+}
+
+// 読み間違えやすい文字（0/O、1/I/L）を除いた英数字
+const TICKET_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+// チケットコード（例: MKN-7K3P-Q9XD）。QRコードにも手入力にも使う
+export function generateTicketCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const chars = Array.from(bytes, (byte) => TICKET_CODE_ALPHABET[byte % TICKET_CODE_ALPHABET.length]).join("");
+  return `MKN-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+// 大文字・小文字を区別せず、前後の空白は無視する
+export function normalizeTicketCode(code: string): string {
+  return code.trim().toUpperCase();
+}